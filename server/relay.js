@@ -0,0 +1,63 @@
+/**
+ * 协作中继服务器
+ * 把客户端发来的消息原样转发给同一房间（URL参数room）的其他客户端，不解析也不保存文档内容。
+ * 用法：PORT=1234 node server/relay.js
+ */
+import { WebSocketServer, WebSocket } from 'ws';
+
+const PORT = Number(process.env.PORT) || 1234;
+
+// 心跳间隔，超过一个间隔没有响应的连接会被关闭
+const HEARTBEAT_INTERVAL = 30000;
+
+// 房间名 -> 房间内的连接
+const rooms = new Map();
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket, request) => {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const room = url.searchParams.get('room');
+  if (!room) {
+    socket.close(1008, 'missing room');
+    return;
+  }
+
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  const clients = rooms.get(room);
+  clients.add(socket);
+
+  socket.isAlive = true;
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+
+  socket.on('message', (data, isBinary) => {
+    clients.forEach(client => {
+      if (client !== socket && client.readyState === WebSocket.OPEN) {
+        client.send(data, { binary: isBinary });
+      }
+    });
+  });
+
+  socket.on('close', () => {
+    clients.delete(socket);
+    if (clients.size === 0) rooms.delete(room);
+  });
+});
+
+// 定时检测断开的连接
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!socket.isAlive) {
+      socket.terminate();
+      return;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  });
+}, HEARTBEAT_INTERVAL);
+
+server.on('close', () => clearInterval(heartbeat));
+
+console.log(`协作中继服务器已启动: ws://localhost:${PORT}`);
@@ -4,6 +4,7 @@ import { ConfigProvider, theme, message } from 'antd';
 import zhCN from 'antd/locale/zh_CN';
 import { GlobalStyle } from './styles/global';
 import MindMap from './components/MindMap';
+import UpdatePrompt from './components/UpdatePrompt';
 import useMindMapStore from './store';
 import logo from './assets/webxmind-logo.svg';
 
@@ -75,6 +76,14 @@ const Logo = styled.img`
   margin-right: 10px;
 `;
 
+// 当前关联的本地文件名
+const FileName = styled.span`
+  margin-left: 16px;
+  font-size: 14px;
+  font-weight: normal;
+  opacity: 0.85;
+`;
+
 const MainContent = styled.main`
   flex: 1;
   overflow: hidden;
@@ -82,7 +91,7 @@ const MainContent = styled.main`
 `;
 
 const App: React.FC = () => {
-  const { initialize, nodes } = useMindMapStore();
+  const { initialize, nodes, currentFile, isDirty } = useMindMapStore();
   
   // 全局键盘快捷键管理
   useEffect(() => {
@@ -163,6 +172,13 @@ const App: React.FC = () => {
     }
   }, [initialize, nodes.length]);
   
+  // 在页面标题中显示关联的文件名，有未保存到文件的修改时加上标记
+  useEffect(() => {
+    document.title = currentFile
+      ? `${isDirty ? '● ' : ''}${currentFile.name} - WebXmind`
+      : 'WebXmind - 网页思维导图';
+  }, [currentFile, isDirty]);
+  
   return (
     <ConfigProvider
       locale={zhCN}
@@ -179,11 +195,17 @@ const App: React.FC = () => {
         <Header>
           <Logo src={logo} alt="WebXmind Logo" />
           WebXmind 网页思维导图
+          {currentFile && (
+            <FileName title={isDirty ? '有未保存到文件的修改' : undefined}>
+              {currentFile.name}{isDirty ? ' ●' : ''}
+            </FileName>
+          )}
         </Header>
         <MainContent>
           <MindMap />
         </MainContent>
       </AppContainer>
+      <UpdatePrompt />
     </ConfigProvider>
   );
 };
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { Modal, Form, Input, Radio, Button, Badge, List, Typography, Space, message } from 'antd';
+import { v4 as uuidv4 } from 'uuid';
+import useMindMapStore, { CollaborationTransportType } from '@/store';
+import { getUserName, setUserName } from '@/core/utils/user-name';
+
+interface CollaborationDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// 保存在本地的协作设置，昵称单独保存以便与评论共用
+const SETTINGS_KEY = 'webxmind-collaboration';
+
+interface CollaborationSettings {
+  name: string;
+  transport: CollaborationTransportType;
+  relayUrl: string;
+}
+
+const loadSettings = (): CollaborationSettings => {
+  const defaults = {
+    transport: 'broadcast' as CollaborationTransportType,
+    relayUrl: `ws://${window.location.hostname || 'localhost'}:1234`
+  };
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'), name: getUserName() };
+  } catch {
+    return { ...defaults, name: getUserName() };
+  }
+};
+
+const STATUS_TEXT = {
+  connecting: '正在连接',
+  connected: '已连接',
+  disconnected: '连接已断开，正在重试'
+};
+
+const STATUS_BADGE = {
+  connecting: 'processing',
+  connected: 'success',
+  disconnected: 'error'
+} as const;
+
+// 协作者颜色标记
+const PeerColor = styled.span<{ color: string }>`
+  display: inline-block;
+  width: 10px;
+  height: 10px;
+  border-radius: 50%;
+  margin-right: 8px;
+  background-color: ${props => props.color};
+`;
+
+const CollaborationDialog: React.FC<CollaborationDialogProps> = ({ open, onClose }) => {
+  const { collaboration, collaborators, startCollaboration, stopCollaboration } = useMindMapStore();
+  const [settings, setSettings] = useState<CollaborationSettings>(loadSettings);
+  const [room, setRoom] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    if (open && !collaboration) setRoom('');
+  }, [open, collaboration]);
+
+  const updateSettings = (updates: Partial<CollaborationSettings>) => {
+    setSettings(prev => {
+      const { name, ...next } = { ...prev, ...updates };
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+      setUserName(name);
+      return { ...next, name };
+    });
+  };
+
+  // 创建或加入房间
+  const handleStart = async (mode: 'create' | 'join') => {
+    const roomId = mode === 'create' ? uuidv4().slice(0, 8) : room.trim();
+    if (!roomId) {
+      message.warning('请输入房间号');
+      return;
+    }
+    if (!settings.name.trim()) {
+      message.warning('请输入昵称');
+      return;
+    }
+    if (settings.transport === 'websocket' && !/^wss?:\/\//.test(settings.relayUrl)) {
+      message.warning('中继服务器地址应以 ws:// 或 wss:// 开头');
+      return;
+    }
+
+    setStarting(true);
+    const success = await startCollaboration({
+      room: roomId,
+      mode,
+      transport: settings.transport,
+      relayUrl: settings.relayUrl,
+      name: settings.name.trim()
+    });
+    setStarting(false);
+
+    if (success) {
+      setRoom(roomId);
+      message.success(mode === 'create' ? '已创建协作房间，把房间号发给其他人即可加入' : '已加入协作房间');
+    } else {
+      message.error('开始协作失败');
+    }
+  };
+
+  // 结束协作
+  const handleStop = () => {
+    stopCollaboration();
+    message.info('已结束协作');
+  };
+
+  return (
+    <Modal
+      title="实时协作"
+      open={open}
+      onCancel={onClose}
+      footer={null}
+    >
+      {collaboration ? (
+        <>
+          <Space direction="vertical" style={{ width: '100%' }}>
+            <div>
+              房间号：<Typography.Text copyable strong>{collaboration.room}</Typography.Text>
+            </div>
+            <div>
+              连接方式：{collaboration.transport === 'websocket' ? 'WebSocket中继服务器' : '同一浏览器的标签页'}
+            </div>
+            <Badge status={STATUS_BADGE[collaboration.status]} text={STATUS_TEXT[collaboration.status]} />
+          </Space>
+          <List
+            style={{ marginTop: 16 }}
+            size="small"
+            header={`在线协作者（${collaborators.length}）`}
+            locale={{ emptyText: '暂无其他协作者' }}
+            dataSource={collaborators}
+            renderItem={peer => (
+              <List.Item>
+                <span><PeerColor color={peer.color} />{peer.name}</span>
+              </List.Item>
+            )}
+          />
+          <Button danger block style={{ marginTop: 16 }} onClick={handleStop}>
+            结束协作
+          </Button>
+        </>
+      ) : (
+        <Form layout="vertical">
+          <Form.Item label="昵称">
+            <Input value={settings.name} onChange={e => updateSettings({ name: e.target.value })} />
+          </Form.Item>
+          <Form.Item label="连接方式">
+            <Radio.Group
+              value={settings.transport}
+              onChange={e => updateSettings({ transport: e.target.value })}
+            >
+              <Radio value="broadcast">同一浏览器的标签页</Radio>
+              <Radio value="websocket">WebSocket中继服务器</Radio>
+            </Radio.Group>
+          </Form.Item>
+          {settings.transport === 'websocket' && (
+            <Form.Item label="中继服务器地址" extra="使用 npm run relay 启动中继服务器">
+              <Input value={settings.relayUrl} onChange={e => updateSettings({ relayUrl: e.target.value })} />
+            </Form.Item>
+          )}
+          <Button type="primary" block loading={starting} onClick={() => handleStart('create')}>
+            用当前思维导图创建房间
+          </Button>
+          <Space.Compact style={{ width: '100%', marginTop: 16 }}>
+            <Input
+              placeholder="房间号"
+              value={room}
+              onChange={e => setRoom(e.target.value)}
+              onPressEnter={() => handleStart('join')}
+            />
+            <Button loading={starting} onClick={() => handleStart('join')}>加入房间</Button>
+          </Space.Compact>
+        </Form>
+      )}
+    </Modal>
+  );
+};
+
+export default CollaborationDialog;
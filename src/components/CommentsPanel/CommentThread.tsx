@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input, Popconfirm, Space, Tag, Typography } from 'antd';
+import { AimOutlined, CheckOutlined, DeleteOutlined, RedoOutlined } from '@ant-design/icons';
+import useMindMapStore from '@/store';
+import { MindNode, NodeComment } from '@/types/mindmap';
+
+interface CommentThreadProps {
+  node: MindNode;
+  comment: NodeComment;
+  author: string;          // 当前用户昵称，用于回复
+  showNode?: boolean;      // 是否显示所属节点和定位按钮
+}
+
+// 讨论串卡片，已解决的评论显示为灰色
+const ThreadCard = styled.div<{ $resolved: boolean }>`
+  border: 1px solid #f0f0f0;
+  border-left: 3px solid ${props => props.$resolved ? '#d9d9d9' : '#fa8c16'};
+  border-radius: 4px;
+  padding: 8px 12px;
+  margin-bottom: 12px;
+  background-color: ${props => props.$resolved ? '#fafafa' : '#fff'};
+`;
+
+// 所属节点
+const NodeTitle = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 6px;
+  color: #1890ff;
+  font-size: 12px;
+`;
+
+// 评论或回复的作者和时间
+const MessageHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  font-size: 12px;
+  color: #999;
+`;
+
+// 评论或回复正文
+const MessageText = styled.div`
+  margin: 2px 0 6px;
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+// 回复列表
+const Replies = styled.div`
+  margin-left: 12px;
+  padding-left: 8px;
+  border-left: 2px solid #f0f0f0;
+`;
+
+// 格式化评论时间
+const formatTime = (time: string) => new Date(time).toLocaleString('zh-CN');
+
+// 节点上的一个讨论串：评论及其回复
+const CommentThread: React.FC<CommentThreadProps> = ({ node, comment, author, showNode }) => {
+  const { replyToNodeComment, setNodeCommentResolved, deleteNodeComment, focusNode } = useMindMapStore();
+  const [replying, setReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+
+  // 提交回复
+  const handleReply = () => {
+    if (!replyText.trim()) return;
+    replyToNodeComment(node.id, comment.id, author, replyText.trim());
+    setReplyText('');
+    setReplying(false);
+  };
+
+  return (
+    <ThreadCard $resolved={comment.resolved}>
+      {showNode && (
+        <NodeTitle>
+          <Typography.Text ellipsis style={{ color: 'inherit', fontSize: 'inherit' }}>
+            {node.content || '（空节点）'}
+          </Typography.Text>
+          <Button size="small" type="link" icon={<AimOutlined />} onClick={() => focusNode(node.id)}>
+            定位
+          </Button>
+        </NodeTitle>
+      )}
+
+      <MessageHeader>
+        <span>
+          <Typography.Text strong>{comment.author}</Typography.Text>
+          <span style={{ marginLeft: 8 }}>{formatTime(comment.createdAt)}</span>
+        </span>
+        {comment.resolved && <Tag color="default">已解决</Tag>}
+      </MessageHeader>
+      <MessageText>{comment.text}</MessageText>
+
+      {comment.replies.length > 0 && (
+        <Replies>
+          {comment.replies.map(reply => (
+            <div key={reply.id}>
+              <MessageHeader>
+                <span>
+                  <Typography.Text strong>{reply.author}</Typography.Text>
+                  <span style={{ marginLeft: 8 }}>{formatTime(reply.createdAt)}</span>
+                </span>
+                <Popconfirm
+                  title="删除这条回复？"
+                  onConfirm={() => deleteNodeComment(node.id, comment.id, reply.id)}
+                  okText="删除"
+                  cancelText="取消"
+                >
+                  <Button size="small" type="text" icon={<DeleteOutlined />} />
+                </Popconfirm>
+              </MessageHeader>
+              <MessageText>{reply.text}</MessageText>
+            </div>
+          ))}
+        </Replies>
+      )}
+
+      {replying ? (
+        <div style={{ marginTop: 8 }}>
+          <Input.TextArea
+            autoFocus
+            value={replyText}
+            placeholder="输入回复，Ctrl+Enter 发送"
+            autoSize={{ minRows: 2, maxRows: 6 }}
+            onChange={e => setReplyText(e.target.value)}
+            onPressEnter={e => {
+              if (e.ctrlKey || e.metaKey) handleReply();
+            }}
+          />
+          <Space style={{ marginTop: 8 }}>
+            <Button size="small" type="primary" disabled={!replyText.trim()} onClick={handleReply}>回复</Button>
+            <Button size="small" onClick={() => setReplying(false)}>取消</Button>
+          </Space>
+        </div>
+      ) : (
+        <Space size={4}>
+          <Button size="small" type="link" onClick={() => setReplying(true)}>回复</Button>
+          <Button
+            size="small"
+            type="link"
+            icon={comment.resolved ? <RedoOutlined /> : <CheckOutlined />}
+            onClick={() => setNodeCommentResolved(node.id, comment.id, !comment.resolved)}
+          >
+            {comment.resolved ? '重新打开' : '解决'}
+          </Button>
+          <Popconfirm
+            title="删除评论"
+            description="评论及其所有回复都会被删除。"
+            onConfirm={() => deleteNodeComment(node.id, comment.id)}
+            okText="删除"
+            cancelText="取消"
+          >
+            <Button size="small" type="link" danger>删除</Button>
+          </Popconfirm>
+        </Space>
+      )}
+    </ThreadCard>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,143 @@
+import React, { useState, useMemo } from 'react';
+import styled from 'styled-components';
+import { Drawer, Button, Input, Typography, Segmented, Empty, Divider } from 'antd';
+import { CommentOutlined } from '@ant-design/icons';
+import useMindMapStore from '@/store';
+import { MindNode, NodeComment } from '@/types/mindmap';
+import { getUserName, setUserName } from '@/core/utils/user-name';
+import CommentThread from './CommentThread';
+
+// 评论列表的筛选方式
+type CommentFilter = 'open' | 'all';
+
+// 分区标题
+const SectionTitle = styled.div`
+  font-weight: 500;
+  margin-bottom: 8px;
+`;
+
+// 昵称行
+const AuthorRow = styled.div`
+  color: #999;
+  font-size: 12px;
+  margin-bottom: 16px;
+`;
+
+// 评论面板：为所选节点添加评论，并列出整个思维导图中的讨论串
+const CommentsPanel: React.FC = () => {
+  const { nodes, selectedNodeIds, commentsPanelOpen, setCommentsPanelOpen, addNodeComment } = useMindMapStore();
+  const [author, setAuthor] = useState(getUserName);
+  const [text, setText] = useState('');
+  const [filter, setFilter] = useState<CommentFilter>('open');
+
+  const selectedNode = selectedNodeIds.length === 1
+    ? nodes.find(node => node.id === selectedNodeIds[0]) || null
+    : null;
+
+  // 所有讨论串，按节点在思维导图中的顺序排列
+  const threads = useMemo(() => {
+    const result: { node: MindNode; comment: NodeComment }[] = [];
+    nodes.forEach(node => {
+      node.comments?.forEach(comment => {
+        if (filter === 'all' || !comment.resolved) result.push({ node, comment });
+      });
+    });
+    return result;
+  }, [nodes, filter]);
+
+  const openCount = useMemo(
+    () => nodes.reduce((count, node) => count + (node.comments?.filter(comment => !comment.resolved).length || 0), 0),
+    [nodes]
+  );
+
+  // 修改昵称
+  const handleAuthorChange = (value: string) => {
+    const name = value.trim();
+    if (!name) return;
+    setUserName(name);
+    setAuthor(name);
+  };
+
+  // 为所选节点发表评论
+  const handleSubmit = () => {
+    if (!selectedNode || !text.trim()) return;
+    addNodeComment(selectedNode.id, author, text.trim());
+    setText('');
+  };
+
+  return (
+    <Drawer
+      title={<><CommentOutlined style={{ marginRight: 8 }} />评论</>}
+      placement="right"
+      width={400}
+      mask={false}
+      open={commentsPanelOpen}
+      onClose={() => setCommentsPanelOpen(false)}
+    >
+      <AuthorRow>
+        评论者：
+        <Typography.Text editable={{ tooltip: '修改昵称', onChange: handleAuthorChange }}>
+          {author}
+        </Typography.Text>
+      </AuthorRow>
+
+      {selectedNode ? (
+        <>
+          <SectionTitle>
+            所选节点：<Typography.Text ellipsis style={{ maxWidth: 260 }}>{selectedNode.content || '（空节点）'}</Typography.Text>
+          </SectionTitle>
+          <Input.TextArea
+            value={text}
+            placeholder="输入评论，Ctrl+Enter 发表"
+            autoSize={{ minRows: 2, maxRows: 6 }}
+            onChange={e => setText(e.target.value)}
+            onPressEnter={e => {
+              if (e.ctrlKey || e.metaKey) handleSubmit();
+            }}
+          />
+          <Button
+            type="primary"
+            style={{ marginTop: 8, marginBottom: 16 }}
+            disabled={!text.trim()}
+            onClick={handleSubmit}
+          >
+            发表评论
+          </Button>
+          {selectedNode.comments?.map(comment => (
+            <CommentThread key={comment.id} node={selectedNode} comment={comment} author={author} />
+          ))}
+        </>
+      ) : (
+        <Typography.Paragraph type="secondary">选中一个节点后可以为它添加评论。</Typography.Paragraph>
+      )}
+
+      <Divider />
+
+      <SectionTitle>
+        全部评论
+        <Segmented
+          size="small"
+          style={{ marginLeft: 12 }}
+          value={filter}
+          onChange={value => setFilter(value as CommentFilter)}
+          options={[
+            { label: `未解决（${openCount}）`, value: 'open' },
+            { label: '全部', value: 'all' }
+          ]}
+        />
+      </SectionTitle>
+      {threads.length === 0 ? (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description={filter === 'open' ? '没有未解决的评论' : '暂无评论'}
+        />
+      ) : (
+        threads.map(({ node, comment }) => (
+          <CommentThread key={comment.id} node={node} comment={comment} author={author} showNode />
+        ))
+      )}
+    </Drawer>
+  );
+};
+
+export default CommentsPanel;
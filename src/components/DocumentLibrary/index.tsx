@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { Modal, List, Button, Typography, Tag, Popconfirm, Empty, Spin, message } from 'antd';
+import {
+  FolderOpenOutlined,
+  CopyOutlined,
+  DeleteOutlined,
+  ExclamationCircleOutlined
+} from '@ant-design/icons';
+import useMindMapStore from '@/store';
+import { MindMapSummary } from '@/types/mindmap';
+
+interface DocumentLibraryProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// 缩略图
+const Thumbnail = styled.img`
+  width: 160px;
+  height: 100px;
+  object-fit: contain;
+  border: 1px solid #f0f0f0;
+  border-radius: 4px;
+  background-color: #fafafa;
+`;
+
+// 文档信息
+const DocumentMeta = styled.div`
+  color: #999;
+  font-size: 12px;
+`;
+
+// 格式化修改时间
+const formatUpdatedAt = (updatedAt: string): string => {
+  if (!updatedAt) return '未知';
+  const date = new Date(updatedAt);
+  return isNaN(date.getTime()) ? '未知' : date.toLocaleString('zh-CN');
+};
+
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ open, onClose }) => {
+  const {
+    currentMapId,
+    listMindMaps,
+    openMindMap,
+    renameMindMap,
+    duplicateMindMap,
+    deleteMindMap
+  } = useMindMapStore();
+
+  const [documents, setDocuments] = useState<MindMapSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // 刷新文档列表
+  const refreshDocuments = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDocuments(await listMindMaps());
+    } catch (error) {
+      console.error('加载文档列表失败:', error);
+      message.error('加载文档列表失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [listMindMaps]);
+
+  // 打开对话框时加载列表
+  useEffect(() => {
+    if (open) {
+      refreshDocuments();
+    }
+  }, [open, refreshDocuments]);
+
+  // 打开文档
+  const handleOpen = async (id: string) => {
+    message.loading({ content: '正在打开思维导图...', key: 'openMindMap' });
+    const success = await openMindMap(id);
+    if (success) {
+      message.success({ content: '已打开思维导图', key: 'openMindMap' });
+      onClose();
+    } else {
+      message.error({ content: '打开失败，文档可能已被删除', key: 'openMindMap' });
+    }
+  };
+
+  // 重命名文档
+  const handleRename = async (id: string, title: string) => {
+    if (!title.trim()) {
+      message.warning('名称不能为空');
+      return;
+    }
+    const success = await renameMindMap(id, title);
+    if (success) {
+      message.success('已重命名');
+      refreshDocuments();
+    } else {
+      message.error('重命名失败');
+    }
+  };
+
+  // 复制文档
+  const handleDuplicate = async (id: string) => {
+    const newId = await duplicateMindMap(id);
+    if (newId) {
+      message.success('已创建副本');
+      refreshDocuments();
+    } else {
+      message.error('复制失败');
+    }
+  };
+
+  // 删除文档
+  const handleDelete = async (id: string) => {
+    const success = await deleteMindMap(id);
+    if (success) {
+      message.success('思维导图已删除');
+      refreshDocuments();
+    } else {
+      message.error('删除失败');
+    }
+  };
+
+  return (
+    <Modal
+      title="我的思维导图"
+      open={open}
+      footer={null}
+      onCancel={onClose}
+      width={720}
+    >
+      <Spin spinning={loading}>
+        {documents.length === 0 ? (
+          <Empty description="暂无思维导图" />
+        ) : (
+          <List
+            dataSource={documents}
+            renderItem={item => (
+              <List.Item
+                actions={[
+                  <Button
+                    type="primary"
+                    icon={<FolderOpenOutlined />}
+                    disabled={item.id === currentMapId}
+                    onClick={() => handleOpen(item.id)}
+                  >
+                    打开
+                  </Button>,
+                  <Button icon={<CopyOutlined />} onClick={() => handleDuplicate(item.id)}>
+                    复制
+                  </Button>,
+                  <Popconfirm
+                    title="删除思维导图"
+                    description="确定要删除这个思维导图吗？此操作不可恢复。"
+                    onConfirm={() => handleDelete(item.id)}
+                    okText="删除"
+                    cancelText="取消"
+                    icon={<ExclamationCircleOutlined style={{ color: 'red' }} />}
+                  >
+                    <Button type="text" danger icon={<DeleteOutlined />}>
+                      删除
+                    </Button>
+                  </Popconfirm>
+                ]}
+              >
+                <List.Item.Meta
+                  avatar={<Thumbnail src={item.thumbnail} alt={item.title} />}
+                  title={
+                    <div>
+                      <Typography.Text
+                        editable={{
+                          tooltip: '重命名',
+                          onChange: value => {
+                            if (value !== item.title) handleRename(item.id, value);
+                          }
+                        }}
+                      >
+                        {item.title}
+                      </Typography.Text>
+                      {item.id === currentMapId && (
+                        <Tag color="blue" style={{ marginLeft: 8 }}>当前</Tag>
+                      )}
+                    </div>
+                  }
+                  description={
+                    <DocumentMeta>
+                      <div>最后修改: {formatUpdatedAt(item.updatedAt)}</div>
+                      <div>节点数量: {item.nodeCount}</div>
+                    </DocumentMeta>
+                  }
+                />
+              </List.Item>
+            )}
+          />
+        )}
+      </Spin>
+    </Modal>
+  );
+};
+
+export default DocumentLibrary;
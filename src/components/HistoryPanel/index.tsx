@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import styled from 'styled-components';
+import { Drawer, List, Button, Input, Typography, Tag, Popconfirm, Empty, Spin, Space, message } from 'antd';
+import { RollbackOutlined, DeleteOutlined, SaveOutlined, DiffOutlined } from '@ant-design/icons';
+import useMindMapStore from '@/store';
+import { MindMapSnapshot } from '@/types/mindmap';
+import { parseMindMapFile } from '@/core/converters/json';
+import { createSVG } from '@/core/converters/svg';
+
+interface HistoryPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// 版本预览
+const Preview = styled.div`
+  height: 200px;
+  margin-bottom: 16px;
+  border: 1px solid #f0f0f0;
+  border-radius: 4px;
+  background-color: #fafafa;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  color: #999;
+
+  img {
+    max-width: 100%;
+    max-height: 100%;
+    object-fit: contain;
+  }
+`;
+
+// 版本列表项，选中时高亮
+const SnapshotItem = styled(List.Item)<{ $selected: boolean }>`
+  cursor: pointer;
+  padding: 8px !important;
+  border-radius: 4px;
+  background-color: ${props => props.$selected ? '#e6f7ff' : 'transparent'};
+
+  &:hover {
+    background-color: ${props => props.$selected ? '#e6f7ff' : '#fafafa'};
+  }
+`;
+
+// 版本信息
+const SnapshotMeta = styled.div`
+  color: #999;
+  font-size: 12px;
+`;
+
+// 生成快照的预览图
+const createPreviewUrl = (snapshot: MindMapSnapshot): string | null => {
+  try {
+    const svg = createSVG(parseMindMapFile(snapshot.data));
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  } catch (error) {
+    console.error('生成版本预览失败:', error);
+    return null;
+  }
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ open, onClose }) => {
+  const {
+    listSnapshots,
+    createSnapshot,
+    restoreSnapshot,
+    compareWithSnapshot,
+    renameSnapshot,
+    deleteSnapshot
+  } = useMindMapStore();
+
+  const [snapshots, setSnapshots] = useState<MindMapSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // 刷新版本列表
+  const refreshSnapshots = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSnapshots(await listSnapshots());
+    } finally {
+      setLoading(false);
+    }
+  }, [listSnapshots]);
+
+  // 打开面板时加载列表
+  useEffect(() => {
+    if (open) {
+      setSelectedId(null);
+      refreshSnapshots();
+    }
+  }, [open, refreshSnapshots]);
+
+  const selectedSnapshot = snapshots.find(snapshot => snapshot.id === selectedId) || null;
+  const previewUrl = useMemo(
+    () => selectedSnapshot ? createPreviewUrl(selectedSnapshot) : null,
+    [selectedSnapshot]
+  );
+
+  // 保存命名版本
+  const handleCreate = async () => {
+    const name = newName.trim() || `版本 ${new Date().toLocaleString('zh-CN')}`;
+    if (await createSnapshot(name)) {
+      message.success('已保存版本');
+      setNewName('');
+      refreshSnapshots();
+    } else {
+      message.error('保存版本失败');
+    }
+  };
+
+  // 恢复版本
+  const handleRestore = async (snapshot: MindMapSnapshot) => {
+    if (await restoreSnapshot(snapshot.id)) {
+      message.success('已恢复到所选版本，可使用撤销返回');
+      refreshSnapshots();
+    } else {
+      message.error('恢复版本失败');
+    }
+  };
+
+  // 在画布上对比所选版本与当前内容
+  const handleCompare = async (snapshot: MindMapSnapshot) => {
+    if (await compareWithSnapshot(snapshot.id)) {
+      message.success('已在画布上标出与所选版本的差异');
+      onClose();
+    } else {
+      message.error('对比版本失败');
+    }
+  };
+
+  // 重命名版本
+  const handleRename = async (snapshot: MindMapSnapshot, name: string) => {
+    if (!name.trim()) {
+      message.warning('名称不能为空');
+      return;
+    }
+    if (await renameSnapshot(snapshot.id, name)) {
+      refreshSnapshots();
+    } else {
+      message.error('重命名失败');
+    }
+  };
+
+  // 删除版本
+  const handleDelete = async (snapshot: MindMapSnapshot) => {
+    if (await deleteSnapshot(snapshot.id)) {
+      if (snapshot.id === selectedId) setSelectedId(null);
+      refreshSnapshots();
+    } else {
+      message.error('删除版本失败');
+    }
+  };
+
+  return (
+    <Drawer
+      title="版本历史"
+      placement="right"
+      width={420}
+      open={open}
+      onClose={onClose}
+    >
+      <Space.Compact style={{ width: '100%', marginBottom: 16 }}>
+        <Input
+          placeholder="版本名称（可选）"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onPressEnter={handleCreate}
+        />
+        <Button type="primary" icon={<SaveOutlined />} onClick={handleCreate}>
+          保存版本
+        </Button>
+      </Space.Compact>
+
+      <Preview>
+        {previewUrl ? <img src={previewUrl} alt="版本预览" /> : '选择一个版本进行预览'}
+      </Preview>
+
+      <Spin spinning={loading}>
+        {snapshots.length === 0 ? (
+          <Empty description="暂无历史版本" />
+        ) : (
+          <List
+            dataSource={snapshots}
+            renderItem={snapshot => (
+              <SnapshotItem
+                $selected={snapshot.id === selectedId}
+                onClick={() => setSelectedId(snapshot.id)}
+                actions={[
+                  <Button
+                    size="small"
+                    icon={<DiffOutlined />}
+                    onClick={e => {
+                      e.stopPropagation();
+                      handleCompare(snapshot);
+                    }}
+                  >
+                    对比
+                  </Button>,
+                  <Popconfirm
+                    title="恢复版本"
+                    description="当前内容会先保存为自动快照，恢复后可撤销。"
+                    onConfirm={() => handleRestore(snapshot)}
+                    okText="恢复"
+                    cancelText="取消"
+                  >
+                    <Button size="small" icon={<RollbackOutlined />} onClick={e => e.stopPropagation()}>
+                      恢复
+                    </Button>
+                  </Popconfirm>,
+                  <Popconfirm
+                    title="删除版本"
+                    description="确定要删除这个版本吗？"
+                    onConfirm={() => handleDelete(snapshot)}
+                    okText="删除"
+                    cancelText="取消"
+                  >
+                    <Button size="small" type="text" danger icon={<DeleteOutlined />} onClick={e => e.stopPropagation()} />
+                  </Popconfirm>
+                ]}
+              >
+                <List.Item.Meta
+                  title={
+                    <div>
+                      <Typography.Text
+                        editable={{
+                          tooltip: '命名版本',
+                          text: snapshot.name || '',
+                          onChange: value => {
+                            if (value !== (snapshot.name || '')) handleRename(snapshot, value);
+                          }
+                        }}
+                      >
+                        {snapshot.name || '自动保存'}
+                      </Typography.Text>
+                      {snapshot.auto && <Tag style={{ marginLeft: 8 }}>自动</Tag>}
+                    </div>
+                  }
+                  description={
+                    <SnapshotMeta>
+                      <div>{new Date(snapshot.createdAt).toLocaleString('zh-CN')}</div>
+                      <div>节点数量: {snapshot.nodeCount}</div>
+                    </SnapshotMeta>
+                  }
+                />
+              </SnapshotItem>
+            )}
+          />
+        )}
+      </Spin>
+    </Drawer>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Modal, Form, Radio, Slider, message } from 'antd';
+import useMindMapStore from '@/store';
+import { SVGExportOptions } from '@/core/converters/svg';
+import { renderSVGToCanvas, canvasToBlob } from '@/core/utils/image-export';
+import { getExportFileName, downloadBlob } from '@/core/utils/download';
+
+interface ImageExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// 图片导出设置
+interface ImageExportSettings {
+  format: 'png' | 'jpeg';
+  scale: number;                                 // 像素倍率
+  transparent: boolean;                          // 透明背景（仅PNG）
+  quality: number;                               // JPEG质量 (0-1)
+  region: 'map' | 'viewport' | 'selection';      // 导出范围
+}
+
+const DEFAULT_SETTINGS: ImageExportSettings = {
+  format: 'png',
+  scale: 2,
+  transparent: false,
+  quality: 0.92,
+  region: 'map'
+};
+
+// 计算画布当前可见区域在导图坐标系中的范围
+const getViewportRegion = (): SVGExportOptions['region'] | null => {
+  const content = document.querySelector<SVGGElement>('.mindmap-container .mindmap-content');
+  const svgElement = content?.ownerSVGElement;
+  const matrix = content?.getScreenCTM();
+  if (!content || !svgElement || !matrix) return null;
+
+  const rect = svgElement.getBoundingClientRect();
+  const inverse = matrix.inverse();
+  const topLeft = new DOMPoint(rect.left, rect.top).matrixTransform(inverse);
+  const bottomRight = new DOMPoint(rect.right, rect.bottom).matrixTransform(inverse);
+
+  return {
+    x: topLeft.x,
+    y: topLeft.y,
+    width: bottomRight.x - topLeft.x,
+    height: bottomRight.y - topLeft.y
+  };
+};
+
+const ImageExportDialog: React.FC<ImageExportDialogProps> = ({ open, onClose }) => {
+  const { exportToImage, selectedNodeIds, nodes } = useMindMapStore();
+  const [settings, setSettings] = useState<ImageExportSettings>(DEFAULT_SETTINGS);
+  const [exporting, setExporting] = useState(false);
+
+  // 只有选中单个节点时才能导出分支
+  const selectedNodeId = selectedNodeIds.length === 1 && nodes.some(node => node.id === selectedNodeIds[0])
+    ? selectedNodeIds[0]
+    : null;
+
+  // 更新导出设置
+  const updateSettings = (updates: Partial<ImageExportSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  // 根据导出范围生成SVG选项
+  const getSVGOptions = (): SVGExportOptions | null => {
+    // JPEG不支持透明，透明选项只对PNG生效
+    const options: SVGExportOptions = { transparent: settings.format === 'png' && settings.transparent };
+
+    if (settings.region === 'viewport') {
+      const region = getViewportRegion();
+      if (!region) return null;
+      options.region = region;
+    } else if (settings.region === 'selection') {
+      if (!selectedNodeId) return null;
+      options.rootId = selectedNodeId;
+    }
+
+    return options;
+  };
+
+  // 导出图片
+  const handleExport = async () => {
+    const options = getSVGOptions();
+    if (!options) {
+      message.error(settings.region === 'selection' ? '请先选中一个节点' : '未找到思维导图画布');
+      return;
+    }
+
+    setExporting(true);
+    message.loading({ content: '正在导出思维导图...', key: 'export' });
+    try {
+      const mimeType = settings.format === 'png' ? 'image/png' : 'image/jpeg';
+      const { url, failedImages } = await exportToImage(options);
+      if (failedImages.length > 0) {
+        message.warning(`${failedImages.length}张图片无法读取（可能不允许跨域访问），导出的图片中已省略`);
+      }
+      const canvas = await renderSVGToCanvas(
+        url,
+        settings.scale,
+        settings.format === 'jpeg' ? '#ffffff' : undefined
+      );
+      const blob = await canvasToBlob(canvas, mimeType, settings.format === 'jpeg' ? settings.quality : undefined);
+      downloadBlob(blob, getExportFileName(settings.format === 'png' ? 'png' : 'jpg'));
+
+      message.success({ content: '导出成功', key: 'export' });
+      onClose();
+    } catch (error) {
+      console.error('导出失败:', error);
+      message.error({ content: '导出失败，请重试', key: 'export' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="导出图片"
+      open={open}
+      onOk={handleExport}
+      onCancel={onClose}
+      okText="导出"
+      cancelText="取消"
+      confirmLoading={exporting}
+    >
+      <Form layout="vertical">
+        <Form.Item label="图片格式">
+          <Radio.Group
+            value={settings.format}
+            onChange={e => updateSettings({ format: e.target.value })}
+          >
+            <Radio value="png">PNG</Radio>
+            <Radio value="jpeg">JPEG</Radio>
+          </Radio.Group>
+        </Form.Item>
+        <Form.Item label="导出范围">
+          <Radio.Group
+            value={settings.region}
+            onChange={e => updateSettings({ region: e.target.value })}
+          >
+            <Radio value="map">整个导图</Radio>
+            <Radio value="viewport">当前视图</Radio>
+            <Radio value="selection" disabled={!selectedNodeId}>选中的分支</Radio>
+          </Radio.Group>
+        </Form.Item>
+        <Form.Item label="像素倍率">
+          <Radio.Group
+            value={settings.scale}
+            onChange={e => updateSettings({ scale: e.target.value })}
+            optionType="button"
+            options={[1, 2, 3, 4].map(scale => ({ value: scale, label: `${scale}x` }))}
+          />
+        </Form.Item>
+        {settings.format === 'png' ? (
+          <Form.Item label="背景">
+            <Radio.Group
+              value={settings.transparent}
+              onChange={e => updateSettings({ transparent: e.target.value })}
+            >
+              <Radio value={false}>使用导图背景</Radio>
+              <Radio value={true}>透明</Radio>
+            </Radio.Group>
+          </Form.Item>
+        ) : (
+          <Form.Item label={`图片质量 (${Math.round(settings.quality * 100)}%)`}>
+            <Slider
+              min={10}
+              max={100}
+              value={Math.round(settings.quality * 100)}
+              onChange={value => updateSettings({ quality: value / 100 })}
+            />
+          </Form.Item>
+        )}
+      </Form>
+    </Modal>
+  );
+};
+
+export default ImageExportDialog;
@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { Modal, Button, Upload, Alert, List, Radio, Space, Tag, Typography, message } from 'antd';
+import { UploadOutlined } from '@ant-design/icons';
+import useMindMapStore from '@/store';
+import { MindMapFile, MindMapFileNode, Relationship } from '@/types/mindmap';
+import { MindMapMerge, MergeConflict, MergeResolutions, MergeSide } from '@/core/utils/map-merge';
+
+interface MergeDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// 参与合并的三个文件
+type MergeSlot = 'base' | 'ours' | 'theirs';
+
+interface MergeFile {
+  name: string;
+  text: string;
+}
+
+const SLOT_LABELS: Record<MergeSlot, string> = {
+  base: '共同版本（双方修改前的文件）',
+  ours: '我的版本',
+  theirs: '对方的版本'
+};
+
+// 冲突字段的名称
+const FIELD_LABELS: Record<string, string> = {
+  content: '内容',
+  note: '备注',
+  style: '样式',
+  icon: '图标',
+  image: '图片',
+  parent: '父节点',
+  meta: '扩展信息',
+  refId: '引用',
+  isReference: '引用',
+  date: '日期',
+  sourceId: '起点',
+  targetId: '终点',
+  label: '关系描述'
+};
+
+// 文件选择行
+const FileRow = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 12px;
+`;
+
+// 冲突两侧的取值
+const ValueCell = styled.div`
+  color: #666;
+  font-size: 12px;
+  word-break: break-all;
+`;
+
+// 查找文件中节点的内容
+const getNodeContent = (file: MindMapFile, id: string): string => {
+  return file.nodes.find(node => node.id === id)?.content || id;
+};
+
+// 冲突的标题：节点内容或关系连线的两端
+const getConflictTitle = (conflict: MergeConflict, merge: MindMapMerge): string => {
+  if (conflict.target === 'node') {
+    const node = (conflict.ours || conflict.theirs || conflict.base) as MindMapFileNode;
+    return node.content || '（空节点）';
+  }
+  const relationship = (conflict.ours || conflict.theirs || conflict.base) as Relationship;
+  const ends = `${getNodeContent(merge.base, relationship.sourceId)} → ${getNodeContent(merge.base, relationship.targetId)}`;
+  return relationship.label ? `${relationship.label}（${ends}）` : ends;
+};
+
+// 显示冲突字段在某一方的值
+const formatValue = (field: string, value: unknown, file: MindMapFile): string => {
+  if (value === undefined || value === '') return '（无）';
+  if (field === 'parent' || field === 'sourceId' || field === 'targetId') {
+    return getNodeContent(file, value as string);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const MergeDialog: React.FC<MergeDialogProps> = ({ open, onClose }) => {
+  const { analyzeMerge, applyMerge } = useMindMapStore();
+  const [files, setFiles] = useState<Partial<Record<MergeSlot, MergeFile>>>({});
+  const [merge, setMerge] = useState<MindMapMerge | null>(null);
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+
+  // 打开对话框时清空上次的选择
+  useEffect(() => {
+    if (open) {
+      setFiles({});
+      setMerge(null);
+      setResolutions({});
+    }
+  }, [open]);
+
+  // 读取选择的文件，重新选择文件后需要重新分析
+  const handleSelectFile = async (slot: MergeSlot, file: File) => {
+    const text = await file.text();
+    setFiles(prev => ({ ...prev, [slot]: { name: file.name, text } }));
+    setMerge(null);
+    setResolutions({});
+  };
+
+  // 分析三个版本
+  const handleAnalyze = () => {
+    if (!files.base || !files.ours || !files.theirs) return;
+    try {
+      setMerge(analyzeMerge(files.base.text, files.ours.text, files.theirs.text));
+      setResolutions({});
+    } catch (error) {
+      console.error('分析合并失败:', error);
+      message.error(`无法合并: ${(error as Error).message}`);
+    }
+  };
+
+  // 所有冲突采用同一方
+  const resolveAll = (side: MergeSide) => {
+    if (!merge) return;
+    setResolutions(Object.fromEntries(merge.conflicts.map(conflict => [conflict.key, side])));
+  };
+
+  // 完成合并
+  const handleApply = () => {
+    if (!merge) return;
+    if (applyMerge(merge, resolutions)) {
+      message.success('合并完成，可使用撤销返回合并前的内容');
+      onClose();
+    } else {
+      message.error('合并失败');
+    }
+  };
+
+  // 冲突说明与各方的取值
+  const renderConflict = (conflict: MergeConflict) => {
+    const targetName = conflict.target === 'node' ? '节点' : '关系连线';
+    let options: { value: MergeSide; label: string }[];
+    let details: React.ReactNode;
+
+    if (conflict.type === 'delete') {
+      const deletedBy = conflict.deletedBy!;
+      const keptBy: MergeSide = deletedBy === 'ours' ? 'theirs' : 'ours';
+      details = (
+        <ValueCell>
+          {deletedBy === 'ours' ? '我' : '对方'}删除了这个{targetName}，{keptBy === 'ours' ? '我' : '对方'}修改了它
+          {conflict.target === 'node' && '或它的子节点'}
+        </ValueCell>
+      );
+      options = [
+        { value: deletedBy, label: conflict.target === 'node' ? '删除（包括子节点）' : '删除' },
+        { value: keptBy, label: '保留修改' }
+      ];
+    } else {
+      const ours = conflict.ours as unknown as Record<string, unknown>;
+      const theirs = conflict.theirs as unknown as Record<string, unknown>;
+      details = conflict.fields.map(field => (
+        <ValueCell key={field}>
+          {FIELD_LABELS[field] || field}：我的版本「{formatValue(field, ours[field], merge!.ours)}」，
+          对方版本「{formatValue(field, theirs[field], merge!.theirs)}」
+        </ValueCell>
+      ));
+      options = [
+        { value: 'ours', label: '采用我的' },
+        { value: 'theirs', label: '采用对方' }
+      ];
+    }
+
+    return (
+      <List.Item>
+        <div style={{ width: '100%' }}>
+          <div style={{ marginBottom: 4 }}>
+            <Tag color={conflict.type === 'delete' ? 'red' : 'orange'}>
+              {conflict.type === 'delete' ? '删除/修改' : '修改/修改'}
+            </Tag>
+            <Typography.Text strong>{targetName}：{getConflictTitle(conflict, merge!)}</Typography.Text>
+          </div>
+          {details}
+          <Radio.Group
+            style={{ marginTop: 8 }}
+            value={resolutions[conflict.key]}
+            onChange={e => setResolutions(prev => ({ ...prev, [conflict.key]: e.target.value }))}
+            options={options}
+          />
+        </div>
+      </List.Item>
+    );
+  };
+
+  const allSelected = Boolean(files.base && files.ours && files.theirs);
+  const unresolvedCount = merge ? merge.conflicts.filter(conflict => !resolutions[conflict.key]).length : 0;
+
+  return (
+    <Modal
+      title="合并思维导图"
+      open={open}
+      width={680}
+      onCancel={onClose}
+      onOk={handleApply}
+      okText="完成合并"
+      cancelText="取消"
+      okButtonProps={{ disabled: !merge || unresolvedCount > 0 }}
+    >
+      {(Object.keys(SLOT_LABELS) as MergeSlot[]).map(slot => (
+        <FileRow key={slot}>
+          <span>
+            {SLOT_LABELS[slot]}
+            {files[slot] && <Typography.Text type="secondary" style={{ marginLeft: 8 }}>{files[slot]!.name}</Typography.Text>}
+          </span>
+          <Upload
+            accept=".json"
+            showUploadList={false}
+            beforeUpload={file => {
+              handleSelectFile(slot, file);
+              return false;
+            }}
+          >
+            <Button size="small" icon={<UploadOutlined />}>选择JSON文件</Button>
+          </Upload>
+        </FileRow>
+      ))}
+
+      <Button type="primary" block disabled={!allSelected} onClick={handleAnalyze}>
+        分析差异
+      </Button>
+
+      {merge && (
+        <div style={{ marginTop: 16 }}>
+          <Alert
+            type={merge.conflicts.length > 0 ? 'warning' : 'success'}
+            showIcon
+            message={merge.conflicts.length > 0
+              ? `已自动合并${merge.autoMerged}处修改，还有${merge.conflicts.length}处冲突需要选择（剩余${unresolvedCount}处）`
+              : `已自动合并${merge.autoMerged}处修改，没有冲突`}
+            description="合并结果会替换当前画布内容，可以撤销。"
+          />
+          {merge.conflicts.length > 0 && (
+            <>
+              <Space style={{ margin: '12px 0' }}>
+                <Button size="small" onClick={() => resolveAll('ours')}>全部采用我的</Button>
+                <Button size="small" onClick={() => resolveAll('theirs')}>全部采用对方</Button>
+              </Space>
+              <List
+                size="small"
+                bordered
+                style={{ maxHeight: 360, overflow: 'auto' }}
+                dataSource={merge.conflicts}
+                renderItem={renderConflict}
+              />
+            </>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default MergeDialog;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { MindNode } from '@/types/mindmap';
+import { CollaborationPeer } from '@/core/collaboration/session';
+
+interface CollaboratorLayerProps {
+  peers: CollaborationPeer[];
+  nodes: MindNode[];
+}
+
+// 选中框与节点边缘的间距
+const SELECTION_GAP = 6;
+
+// 协作者图层：用协作者的颜色标出其选中的节点，并显示其光标和昵称
+const CollaboratorLayer: React.FC<CollaboratorLayerProps> = ({ peers, nodes }) => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+
+  return (
+    <g className="collaborator-layer" pointerEvents="none">
+      {peers.map(peer => (
+        <g key={peer.clientId}>
+          {peer.selection.map(id => {
+            const node = nodeMap.get(id);
+            if (!node?.position) return null;
+            const width = (node.style.width || 120) + SELECTION_GAP * 2;
+            const height = (node.style.height || 40) + SELECTION_GAP * 2;
+            return (
+              <g key={id} transform={`translate(${node.position.x}, ${node.position.y})`}>
+                <rect
+                  x={-width / 2}
+                  y={-height / 2}
+                  width={width}
+                  height={height}
+                  rx={8}
+                  ry={8}
+                  fill="none"
+                  stroke={peer.color}
+                  strokeWidth={2}
+                  strokeDasharray="4,3"
+                />
+                <text
+                  x={-width / 2}
+                  y={-height / 2 - 4}
+                  fontSize={11}
+                  fill={peer.color}
+                >
+                  {peer.name}
+                </text>
+              </g>
+            );
+          })}
+          {peer.cursor && (
+            <g transform={`translate(${peer.cursor.x}, ${peer.cursor.y})`}>
+              <path
+                d="M0,0 L0,16 L4.5,12 L7.5,19 L10,18 L7,11 L12,11 Z"
+                fill={peer.color}
+                stroke="#fff"
+                strokeWidth={1}
+              />
+              <rect x={12} y={14} width={peer.name.length * 12 + 8} height={18} rx={3} fill={peer.color} />
+              <text x={16} y={27} fontSize={12} fill="#fff">{peer.name}</text>
+            </g>
+          )}
+        </g>
+      ))}
+    </g>
+  );
+};
+
+export default CollaboratorLayer;
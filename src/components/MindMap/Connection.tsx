@@ -1,10 +1,12 @@
 import React from 'react';
 import styled from 'styled-components';
-import { MindNode } from '@/types/mindmap';
+import { MindNode, LayoutType } from '@/types/mindmap';
+import { getLayoutStrategy } from '@/core/layouts/mindmap-layout';
 
 interface ConnectionProps {
   sourceNode: MindNode;
   targetNode: MindNode;
+  layout?: LayoutType;   // 当前布局，决定连接线的走向
 }
 
 // 连接线路径样式
@@ -14,51 +16,11 @@ const ConnectionPath = styled.path`
   fill: none;
 `;
 
-const Connection: React.FC<ConnectionProps> = ({ sourceNode, targetNode }) => {
+const Connection: React.FC<ConnectionProps> = ({ sourceNode, targetNode, layout }) => {
   // 计算连接线路径
-  const pathData = generateConnectionPath(sourceNode, targetNode);
+  const pathData = getLayoutStrategy(layout).getConnectionPath(sourceNode, targetNode);
   
   return <ConnectionPath d={pathData} />;
 };
 
-// 生成连接线路径
-const generateConnectionPath = (sourceNode: MindNode, targetNode: MindNode): string => {
-  // 获取节点位置
-  const sourceX = sourceNode.position?.x || 0;
-  const sourceY = sourceNode.position?.y || 0;
-  const targetX = targetNode.position?.x || 0;
-  const targetY = targetNode.position?.y || 0;
-  
-  // 节点尺寸 - 用于计算连接点
-  const sourceWidth = sourceNode.style.width || 120;
-  const targetWidth = targetNode.style.width || 120;
-  
-  // 确定方向
-  const direction = targetNode.direction || 'right';
-  
-  // 计算实际连接点
-  let sourcePointX: number, targetPointX: number;
-  
-  if (direction === 'right') {
-    // 右侧连接 - 源节点右边，目标节点左边
-    sourcePointX = sourceX + sourceWidth / 2;
-    targetPointX = targetX - targetWidth / 2;
-  } else {
-    // 左侧连接 - 源节点左边，目标节点右边
-    sourcePointX = sourceX - sourceWidth / 2;
-    targetPointX = targetX + targetWidth / 2;
-  }
-  
-  // 使用三段式直角连线，强制使用节点本身的Y坐标
-  // 这确保连线始终从节点的中心点出发，而不受视觉位置影响
-  const turnX = (sourcePointX + targetPointX) / 2;
-  
-  return `
-    M ${sourcePointX} ${sourceY}
-    H ${turnX}
-    V ${targetY}
-    H ${targetPointX}
-  `;
-};
-
 export default Connection;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { MindNode } from '@/types/mindmap';
+import { MindMapDiff, DIFF_COLORS } from '@/core/utils/map-diff';
+
+interface DiffLayerProps {
+  diff: MindMapDiff;
+}
+
+// 高亮框与节点边缘的间距，多种变化时逐层向外扩展
+const HIGHLIGHT_GAP = 4;
+const HIGHLIGHT_WIDTH = 3;
+
+// 节点尺寸（与画布节点一致）
+const getNodeSize = (node: MindNode) => ({
+  width: node.style.width || 120,
+  height: node.style.height || 40
+});
+
+// 版本对比图层：在节点下方绘制变化高亮，并以虚线绘制已删除节点在原版本中的位置
+const DiffLayer: React.FC<DiffLayerProps> = ({ diff }) => {
+  return (
+    <g className="diff-layer" pointerEvents="none">
+      {diff.nodes.map(change => {
+        // 已删除的节点
+        if (!change.after) {
+          const node = change.before!;
+          if (!node.position) return null;
+          const { width, height } = getNodeSize(node);
+          return (
+            <g key={`diff-${change.id}`} transform={`translate(${node.position.x}, ${node.position.y})`} opacity={0.7}>
+              <rect
+                x={-width / 2}
+                y={-height / 2}
+                width={width}
+                height={height}
+                rx={5}
+                ry={5}
+                fill="#fff1f0"
+                stroke={DIFF_COLORS.removed}
+                strokeWidth={2}
+                strokeDasharray="6,4"
+              />
+              <text
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={node.style.fontSize || 14}
+                fill={DIFF_COLORS.removed}
+                textDecoration="line-through"
+              >
+                {node.content}
+              </text>
+            </g>
+          );
+        }
+
+        const node = change.after;
+        if (!node.position) return null;
+        const { width, height } = getNodeSize(node);
+        return (
+          <g key={`diff-${change.id}`} transform={`translate(${node.position.x}, ${node.position.y})`}>
+            {change.types.map((type, index) => {
+              const offset = HIGHLIGHT_GAP + index * (HIGHLIGHT_GAP + HIGHLIGHT_WIDTH);
+              return (
+                <rect
+                  key={type}
+                  x={-width / 2 - offset}
+                  y={-height / 2 - offset}
+                  width={width + offset * 2}
+                  height={height + offset * 2}
+                  rx={5 + offset}
+                  ry={5 + offset}
+                  fill="none"
+                  stroke={DIFF_COLORS[type]}
+                  strokeWidth={HIGHLIGHT_WIDTH}
+                />
+              );
+            })}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default DiffLayer;
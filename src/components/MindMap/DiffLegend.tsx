@@ -0,0 +1,89 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Button, Tooltip } from 'antd';
+import { CloseOutlined } from '@ant-design/icons';
+import { MindMapDiff, NodeChangeType, DIFF_COLORS } from '@/core/utils/map-diff';
+
+interface DiffLegendProps {
+  name: string;
+  diff: MindMapDiff;
+  onClose: () => void;
+}
+
+// 图例容器
+const LegendContainer = styled.div`
+  position: absolute;
+  top: 64px;
+  right: 16px;
+  z-index: 10;
+  min-width: 200px;
+  padding: 12px 16px;
+  background-color: white;
+  border-radius: 6px;
+  box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+  font-size: 13px;
+`;
+
+// 图例标题
+const LegendHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 8px;
+  margin-bottom: 8px;
+  font-weight: 500;
+`;
+
+// 图例条目
+const LegendItem = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  line-height: 24px;
+`;
+
+// 颜色标记
+const ColorMark = styled.span<{ color: string; dashed?: boolean }>`
+  display: inline-block;
+  width: 16px;
+  height: 10px;
+  border: 2px ${props => props.dashed ? 'dashed' : 'solid'} ${props => props.color};
+  border-radius: 3px;
+`;
+
+const LEGEND_LABELS: Record<NodeChangeType, string> = {
+  added: '新增',
+  removed: '删除',
+  moved: '移动',
+  edited: '修改'
+};
+
+// 版本对比图例：显示对比基准和各类变化的数量
+const DiffLegend: React.FC<DiffLegendProps> = ({ name, diff, onClose }) => {
+  const relationshipCount = diff.relationships.length;
+
+  return (
+    <LegendContainer>
+      <LegendHeader>
+        <Tooltip title={name}>
+          <span>对比: {name.length > 16 ? `${name.slice(0, 16)}...` : name}</span>
+        </Tooltip>
+        <Button type="text" size="small" icon={<CloseOutlined />} onClick={onClose} />
+      </LegendHeader>
+      {(Object.keys(LEGEND_LABELS) as NodeChangeType[]).map(type => (
+        <LegendItem key={type}>
+          <ColorMark color={DIFF_COLORS[type]} dashed={type === 'removed'} />
+          <span>{LEGEND_LABELS[type]}节点: {diff.counts[type]}</span>
+        </LegendItem>
+      ))}
+      {relationshipCount > 0 && (
+        <LegendItem>关系连线变化: {relationshipCount}</LegendItem>
+      )}
+      {diff.nodes.length === 0 && relationshipCount === 0 && (
+        <LegendItem>与当前版本相同</LegendItem>
+      )}
+    </LegendContainer>
+  );
+};
+
+export default DiffLegend;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { MindNode, LayoutType } from '@/types/mindmap';
+import { getLayoutStrategy } from '@/core/layouts/mindmap-layout';
+
+interface GuideLayerProps {
+  rootNode: MindNode;
+  layout?: LayoutType;
+}
+
+// 布局辅助图层：绘制布局提供的坐标轴、刻度等辅助图形，位于连接线下方
+const GuideLayer: React.FC<GuideLayerProps> = ({ rootNode, layout }) => {
+  const strategy = getLayoutStrategy(layout);
+  if (!strategy.getGuides) return null;
+  const { lines, labels } = strategy.getGuides(rootNode);
+
+  return (
+    <g className="guide-layer" pointerEvents="none">
+      {lines.map((line, index) => (
+        <line key={`line-${index}`} {...line} stroke="#8c8c8c" strokeWidth={2} />
+      ))}
+      {labels.map((label, index) => (
+        <text
+          key={`label-${index}`}
+          x={label.x}
+          y={label.y}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fontSize={12}
+          fill="#8c8c8c"
+        >
+          {label.text}
+        </text>
+      ))}
+    </g>
+  );
+};
+
+export default GuideLayer;
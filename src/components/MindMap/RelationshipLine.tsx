@@ -2,6 +2,7 @@ import React from 'react';
 import styled from 'styled-components';
 import { MindNode, Relationship } from '@/types/mindmap';
 import useMindMapStore from '@/store';
+import { generateRelationshipPath, getRelationshipControlPoint } from '@/core/utils/connection-path';
 import { DeleteOutlined, EditOutlined } from '@ant-design/icons';
 import { Popover, Input, Button, ColorPicker, Select, InputNumber } from 'antd';
 
@@ -88,11 +89,10 @@ const RelationshipLine: React.FC<RelationshipLineProps> = ({ relationship, sourc
   const targetY = targetNode.position?.y || 0;
   
   // 计算控制点（贝塞尔曲线的控制点）
-  const controlX = (sourceX + targetX) / 2;
-  const controlY = (sourceY + targetY) / 2 - 30; // 稍微上移，使曲线显得自然
+  const { x: controlX, y: controlY } = getRelationshipControlPoint(sourceNode, targetNode);
   
   // 计算连线路径
-  const pathData = generatePathData(
+  const pathData = generateRelationshipPath(
     sourceX, sourceY, 
     targetX, targetY, 
     controlX, controlY,
@@ -272,58 +272,4 @@ const RelationshipLine: React.FC<RelationshipLineProps> = ({ relationship, sourc
   );
 };
 
-// 生成路径数据
-const generatePathData = (
-  sourceX: number, 
-  sourceY: number, 
-  targetX: number, 
-  targetY: number, 
-  controlX: number, 
-  controlY: number,
-  lineStyle: string = 'curved'
-) => {
-  // 根据线条样式生成不同的路径
-  switch (lineStyle) {
-    case 'straight':
-      return `M ${sourceX} ${sourceY} L ${targetX} ${targetY}`;
-    
-    case 'orthogonal': {
-      const midX = (sourceX + targetX) / 2;
-      return `M ${sourceX} ${sourceY} H ${midX} V ${targetY} H ${targetX}`;
-    }
-    
-    case 'orthogonalRounded': {
-      const midX = (sourceX + targetX) / 2;
-      const radius = 10; // 圆角半径
-      
-      // 如果垂直距离很小，直接使用水平线连接
-      if (Math.abs(sourceY - targetY) < radius * 2) {
-        return `M ${sourceX} ${sourceY} H ${targetX}`;
-      }
-      
-      // 垂直方向标识 (上或下)
-      const verticalDirection = sourceY > targetY ? -1 : 1;
-      
-      // 计算拐角点坐标
-      const corner1Y = sourceY;
-      const corner1X = midX;
-      const corner2Y = targetY; 
-      const corner2X = midX;
-      
-      return `
-        M ${sourceX} ${sourceY}
-        H ${corner1X - radius * Math.sign(corner1X - sourceX)}
-        A ${radius} ${radius} 0 0 ${verticalDirection > 0 ? 1 : 0} ${corner1X} ${corner1Y + radius * verticalDirection}
-        V ${corner2Y - radius * verticalDirection}
-        A ${radius} ${radius} 0 0 ${midX < targetX ? 1 : 0} ${corner2X + radius * Math.sign(targetX - corner2X)} ${corner2Y}
-        H ${targetX}
-      `;
-    }
-    
-    case 'curved':
-    default:
-      return `M ${sourceX} ${sourceY} Q ${controlX} ${controlY} ${targetX} ${targetY}`;
-  }
-};
-
 export default RelationshipLine; 
\ No newline at end of file
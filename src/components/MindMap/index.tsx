@@ -1,10 +1,18 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import styled from 'styled-components';
 import useMindMapStore from '@/store';
 import Connection from './Connection';
 import RelationshipLine from './RelationshipLine';
+import DiffLayer from './DiffLayer';
+import DiffLegend from './DiffLegend';
+import CollaboratorLayer from './CollaboratorLayer';
+import GuideLayer from './GuideLayer';
 import Toolbar from '../Toolbar';
+import TabConflictModal from '../TabConflictModal';
+import CommentsPanel from '../CommentsPanel';
 import { addDebugNode } from '@/core/operations/node-operations';
+import { parseIndentedText } from '@/core/utils/outline';
+import { diffMindMaps } from '@/core/utils/map-diff';
 import NodeReferenceMenu from './NodeReferenceMenu';
 import { Input, InputRef } from 'antd';
 import { NodePosition, BackgroundConfig } from '@/types/mindmap';
@@ -156,9 +164,23 @@ const MindMap: React.FC = () => {
     initialize,
     relationships,
     setNodes,
-    background
+    background,
+    layout,
+    diffBase,
+    clearDiffBase,
+    collaboration,
+    collaborators,
+    updateCollaborationCursor,
+    focusRequest,
+    setCommentsPanelOpen
   } = useMindMapStore();
   
+  // 版本对比结果，编辑时随当前内容实时更新
+  const diff = useMemo(
+    () => diffBase ? diffMindMaps(diffBase.data, { nodes, relationships }) : null,
+    [diffBase, nodes, relationships]
+  );
+  
   // SVG容器引用
   const svgRef = useRef<SVGSVGElement>(null);
   
@@ -167,6 +189,9 @@ const MindMap: React.FC = () => {
   const [dragStart, setDragStart] = useState<SVGPoint | null>(null);
   const [debugMode, setDebugMode] = useState(false);
   
+  // 上次发送协作光标的时间，用于限制发送频率
+  const lastCursorSentRef = useRef(0);
+  
   // 右键菜单状态
   const [contextMenu, setContextMenu] = useState<ContextMenuInfo>({
     visible: false,
@@ -210,6 +235,21 @@ const MindMap: React.FC = () => {
     }
   }, [nodes.length, initialize]);
   
+  // 定位节点时把节点移动到视图中央
+  useEffect(() => {
+    if (!focusRequest) return;
+    // 只响应新的定位请求，节点或缩放变化时不重新定位
+    const { nodes: currentNodes, zoom: currentZoom } = useMindMapStore.getState();
+    const node = currentNodes.find(n => n.id === focusRequest.nodeId);
+    if (!node?.position) return;
+    const { x, y } = node.position;
+    setViewBox(prev => ({
+      ...prev,
+      x: x * currentZoom - prev.width / 2,
+      y: y * currentZoom - prev.height / 2
+    }));
+  }, [focusRequest]);
+  
   // 添加测试节点的函数（仅供调试使用）
   const handleAddDebugNode = () => {
     console.log('手动添加调试节点');
@@ -248,6 +288,13 @@ const MindMap: React.FC = () => {
   };
   
   const handleMouseMove = (e: React.MouseEvent) => {
+    // 协作时把光标在画布中的位置发送给其他协作者
+    if (collaboration && Date.now() - lastCursorSentRef.current > 50) {
+      lastCursorSentRef.current = Date.now();
+      const point = clientToSVGPoint(e.clientX, e.clientY);
+      updateCollaborationCursor({ x: point.x / zoom, y: point.y / zoom });
+    }
+    
     if (dragStart) {
       const current = clientToSVGPoint(e.clientX, e.clientY);
       const dx = current.x - dragStart.x;
@@ -265,6 +312,11 @@ const MindMap: React.FC = () => {
     setDragStart(null);
   };
   
+  const handleMouseLeave = () => {
+    setDragStart(null);
+    if (collaboration) updateCollaborationCursor(null);
+  };
+  
   // 处理缩放
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
@@ -371,6 +423,13 @@ const MindMap: React.FC = () => {
     return nodes.find(node => node.id === contextMenu.nodeId) || null;
   };
   
+  // 渲染布局的辅助图形（如时间轴）
+  const renderGuides = () => {
+    const rootNode = nodes.find(node => node.level === 0);
+    if (!rootNode?.position) return null;
+    return <GuideLayer rootNode={rootNode} layout={layout} />;
+  };
+  
   // 渲染节点连接线
   const renderConnections = () => {
     const result: React.ReactNode[] = [];
@@ -388,6 +447,7 @@ const MindMap: React.FC = () => {
                 key={`${node.id}-${targetNode.id}`}
                 sourceNode={node}
                 targetNode={targetNode}
+                layout={layout}
               />
             );
           }
@@ -565,6 +625,30 @@ const MindMap: React.FC = () => {
       console.log('已移除MindMap快捷键处理函数');
     };
   }, [selectedNodeIds]);
+
+  // 粘贴缩进文本时，在选中节点下创建整棵子树
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const { editingNodeId, addChildNodes } = useMindMapStore.getState();
+      const activeElement = document.activeElement;
+      if (editingNodeId || activeElement?.tagName === 'INPUT' || activeElement?.tagName === 'TEXTAREA') {
+        return;
+      }
+      if (selectedNodeIds.length !== 1) return;
+
+      const text = e.clipboardData?.getData('text/plain') || '';
+      const items = parseIndentedText(text);
+      if (items.length === 0) return;
+
+      e.preventDefault();
+      addChildNodes(selectedNodeIds[0], items);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [selectedNodeIds]);
   
   // 处理节点编辑时的键盘事件
   const handleInputKeyDown = (e: React.KeyboardEvent) => {
@@ -1013,6 +1097,33 @@ const MindMap: React.FC = () => {
             </text>
           )}
           
+          {/* 评论指示器：显示未解决的评论数量，点击打开评论面板 */}
+          {node.comments && node.comments.length > 0 && (() => {
+            const openCount = node.comments.filter(comment => !comment.resolved).length;
+            return (
+              <g
+                transform={`translate(${width/2}, ${-height/2})`}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setSelectedNodeIds([node.id]);
+                  setCommentsPanelOpen(true);
+                }}
+              >
+                <title>{openCount > 0 ? `${openCount}条未解决的评论` : '评论已全部解决'}</title>
+                <circle r={9} fill={openCount > 0 ? '#fa8c16' : '#bfbfbf'} stroke="#fff" strokeWidth={1.5} />
+                <text
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={10}
+                  fill="#fff"
+                >
+                  {openCount > 0 ? openCount : '✓'}
+                </text>
+              </g>
+            );
+          })()}
+          
           {/* 调试信息 */}
           <text
             x={0}
@@ -1063,18 +1174,32 @@ const MindMap: React.FC = () => {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
         onClick={handleBackgroundClick}
         onContextMenu={handleBackgroundContextMenu}
         onWheel={handleWheel}
       >
-        <g transform={`scale(${zoom})`}>
+        <g className="mindmap-content" transform={`scale(${zoom})`}>
+          {renderGuides()}
           {renderConnections()}
           {renderRelationships()}
+          {diff && <DiffLayer diff={diff} />}
           {renderNodes()}
+          {collaborators.length > 0 && <CollaboratorLayer peers={collaborators} nodes={nodes} />}
         </g>
       </MindMapSVG>
       
+      {/* 与其他标签页的保存冲突 */}
+      <TabConflictModal />
+      
+      {/* 评论面板 */}
+      <CommentsPanel />
+      
+      {/* 版本对比图例 */}
+      {diffBase && diff && (
+        <DiffLegend name={diffBase.name} diff={diff} onClose={clearDiffBase} />
+      )}
+      
       {/* 调试按钮 */}
       <DebugButton onClick={toggleDebugMode}>
         {debugMode ? '关闭调试' : '开启调试'}
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Modal, Form, Radio, Select, InputNumber, message } from 'antd';
+import useMindMapStore from '@/store';
+import { PDFExportOptions, DEFAULT_PDF_EXPORT_OPTIONS } from '@/core/converters/pdf';
+import { getExportFileName, downloadBlob } from '@/core/utils/download';
+
+interface PdfExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ open, onClose }) => {
+  const { exportToPDF } = useMindMapStore();
+  const [options, setOptions] = useState<PDFExportOptions>(DEFAULT_PDF_EXPORT_OPTIONS);
+  const [exporting, setExporting] = useState(false);
+
+  // 更新导出选项
+  const updateOptions = (updates: Partial<PDFExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...updates }));
+  };
+
+  // 导出PDF
+  const handleExport = async () => {
+    setExporting(true);
+    message.loading({ content: '正在生成PDF...', key: 'exportPDF' });
+    try {
+      const blob = await exportToPDF(options);
+      downloadBlob(blob, getExportFileName('pdf'));
+      message.success({ content: '思维导图已导出为PDF文件', key: 'exportPDF' });
+      onClose();
+    } catch (error) {
+      console.error('导出PDF失败:', error);
+      message.error({ content: '导出PDF失败，请重试', key: 'exportPDF' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="导出PDF"
+      open={open}
+      onOk={handleExport}
+      onCancel={onClose}
+      okText="导出"
+      cancelText="取消"
+      confirmLoading={exporting}
+    >
+      <Form layout="vertical">
+        <Form.Item label="页面布局">
+          <Radio.Group
+            value={options.layout}
+            onChange={e => updateOptions({ layout: e.target.value })}
+          >
+            <Radio value="fit">缩放到单页</Radio>
+            <Radio value="tile">分页平铺</Radio>
+          </Radio.Group>
+        </Form.Item>
+        <Form.Item label="纸张大小">
+          <Select
+            value={options.pageSize}
+            onChange={value => updateOptions({ pageSize: value })}
+            options={[
+              { value: 'a4', label: 'A4 (210 × 297 mm)' },
+              { value: 'a3', label: 'A3 (297 × 420 mm)' }
+            ]}
+          />
+        </Form.Item>
+        <Form.Item label="纸张方向">
+          <Radio.Group
+            value={options.orientation}
+            onChange={e => updateOptions({ orientation: e.target.value })}
+          >
+            <Radio value="auto">自动</Radio>
+            <Radio value="portrait">纵向</Radio>
+            <Radio value="landscape">横向</Radio>
+          </Radio.Group>
+        </Form.Item>
+        {options.layout === 'tile' && (
+          <>
+            <Form.Item label="打印比例" extra="100%为原始尺寸，比例越大页数越多">
+              <InputNumber
+                min={25}
+                max={400}
+                step={25}
+                value={Math.round(options.scale * 100)}
+                onChange={value => updateOptions({ scale: (value || 100) / 100 })}
+                addonAfter="%"
+              />
+            </Form.Item>
+            <Form.Item label="重叠宽度" extra="相邻页面重复打印的宽度，页面上以虚线标出，便于拼接">
+              <InputNumber
+                min={0}
+                max={50}
+                value={options.overlap}
+                onChange={value => updateOptions({ overlap: value ?? 0 })}
+                addonAfter="mm"
+              />
+            </Form.Item>
+          </>
+        )}
+      </Form>
+    </Modal>
+  );
+};
+
+export default PdfExportDialog;
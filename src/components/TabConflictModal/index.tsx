@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Modal, Button, Space, Typography, message } from 'antd';
+import { ExclamationCircleOutlined } from '@ant-design/icons';
+import useMindMapStore from '@/store';
+
+// 与其他标签页的保存冲突：当前标签页暂停保存，由用户选择保留哪一份内容
+const TabConflictModal: React.FC = () => {
+  const { tabConflict, resolveTabConflict } = useMindMapStore();
+  const [resolving, setResolving] = useState(false);
+
+  const handleResolve = async (choice: 'reload' | 'overwrite' | 'saveAsNew') => {
+    setResolving(true);
+    const success = await resolveTabConflict(choice);
+    setResolving(false);
+
+    if (!success) {
+      message.error('操作失败，请重试');
+      return;
+    }
+    if (choice === 'reload') message.success('已加载其他标签页保存的内容');
+    else if (choice === 'overwrite') message.success('已保存当前内容，被覆盖的内容可在版本历史中找回');
+    else message.success('已另存为新的思维导图');
+  };
+
+  return (
+    <Modal
+      open={tabConflict}
+      title={<><ExclamationCircleOutlined style={{ color: '#faad14', marginRight: 8 }} />思维导图已在其他标签页中修改</>}
+      closable={false}
+      maskClosable={false}
+      keyboard={false}
+      footer={
+        <Space>
+          <Button loading={resolving} onClick={() => handleResolve('saveAsNew')}>另存为新思维导图</Button>
+          <Button danger loading={resolving} onClick={() => handleResolve('overwrite')}>保留我的修改</Button>
+          <Button type="primary" loading={resolving} onClick={() => handleResolve('reload')}>加载最新内容</Button>
+        </Space>
+      }
+    >
+      <Typography.Paragraph>
+        这个思维导图在另一个标签页中保存了新的内容，而当前标签页还有未保存的修改。为避免互相覆盖，当前标签页已暂停自动保存。
+      </Typography.Paragraph>
+      <Typography.Paragraph type="secondary">
+        加载最新内容会放弃当前标签页的修改；保留我的修改会覆盖另一个标签页的内容（被覆盖的内容保存在版本历史中）；
+        另存为新思维导图则两份内容都会保留。
+      </Typography.Paragraph>
+    </Modal>
+  );
+};
+
+export default TabConflictModal;
@@ -1,6 +1,6 @@
 import React, { useRef, useState, useCallback, useEffect } from 'react';
 import styled from 'styled-components';
-import { Button, Tooltip, Divider, message, ColorPicker, Modal, Input, List, Typography, Tag, Popconfirm, Radio, Slider } from 'antd';
+import { Button, Tooltip, Divider, message, ColorPicker, Modal, Input, List, Typography, Tag, Popconfirm, Radio, Slider, Select, Popover } from 'antd';
 import {
   PlusOutlined,
   DeleteOutlined,
@@ -12,23 +12,46 @@ import {
   BgColorsOutlined,
   FontColorsOutlined,
   NodeIndexOutlined,
+  ColumnWidthOutlined,
   SaveOutlined,
   FileOutlined,
   SnippetsOutlined,
   AppstoreOutlined,
   ExclamationCircleOutlined,
   PictureOutlined,
-  UploadOutlined
+  UploadOutlined,
+  FolderOpenOutlined,
+  ExportOutlined
 } from '@ant-design/icons';
-import { FileImageOutlined, ImportOutlined } from '@ant-design/icons';
+import { FileImageOutlined, FilePdfOutlined, FileWordOutlined, HistoryOutlined, ImportOutlined, DiffOutlined, MergeOutlined, TeamOutlined, CommentOutlined, FileAddOutlined, CalendarOutlined } from '@ant-design/icons';
 import useMindMapStore from '@/store';
 import { findNodeById } from '@/core/operations/node-operations';
-import { BackgroundConfig } from '@/types/mindmap';
-import html2canvas from 'html2canvas';
+import { BackgroundConfig, LayoutType } from '@/types/mindmap';
+import { LAYOUT_STRATEGIES } from '@/core/layouts/mindmap-layout';
+import { getExportFileName, downloadBlob } from '@/core/utils/download';
+import { isFileSystemAccessSupported, MindMapFileFormat } from '@/core/storage/file-system';
+import DocumentLibrary from '@/components/DocumentLibrary';
+import PdfExportDialog from '@/components/PdfExportDialog';
+import ImageExportDialog from '@/components/ImageExportDialog';
+import HistoryPanel from '@/components/HistoryPanel';
+import MergeDialog from '@/components/MergeDialog';
+import CollaborationDialog from '@/components/CollaborationDialog';
 
 // 检测操作系统
 const isMac = typeof navigator !== 'undefined' ? /Mac|iPod|iPhone|iPad/.test(navigator.platform) : false;
 
+// 可导入的文件格式
+type ImportFormat = 'json' | 'opml' | 'xmind' | 'freemind' | 'markdown';
+
+// 各导入格式可选择的文件扩展名
+const IMPORT_ACCEPT: Record<ImportFormat, string> = {
+  json: '.json',
+  opml: '.opml,.xml',
+  xmind: '.xmind',
+  freemind: '.mm',
+  markdown: '.md,.markdown,.txt'
+};
+
 // 工具栏容器
 const ToolbarContainer = styled.div`
   background-color: white;
@@ -230,29 +253,62 @@ const Toolbar: React.FC = () => {
     deleteNode, 
     setEditingNodeId,
     updateNodeStyle,
+    updateNodeDate,
     undo, 
     redo,
     setZoom,
     zoom,
     exportToJSON,
+    exportToSVG,
     importFromJSON,
+    exportToXMind,
+    exportToDocx,
+    importFromXMind,
+    exportToFreeMind,
+    importFromFreeMind,
+    exportToMarkdown,
+    exportToOPML,
+    importFromOPML,
+    importFromMarkdown,
+    compareWithJSON,
     createEmptyMindMap,
     saveAsTemplate,
     loadTemplates,
     createFromTemplate,
     saveToLocalStorage,
-    deleteTemplate
+    deleteTemplate,
+    collaboration,
+    collaborators,
+    commentsPanelOpen,
+    setCommentsPanelOpen,
+    balanceLayout,
+    layout,
+    setLayout,
+    currentFile,
+    openFile,
+    saveFile,
+    saveFileAs
   } = useMindMapStore();
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const openFileInputRef = useRef<HTMLInputElement>(null);
+  const compareInputRef = useRef<HTMLInputElement>(null);
+  const [importFormat, setImportFormat] = useState<ImportFormat>('json');
   const [newTemplateModalVisible, setNewTemplateModalVisible] = useState(false);
   const [templateName, setTemplateName] = useState('');
   const [templatesModalVisible, setTemplatesModalVisible] = useState(false);
   const [templates, setTemplates] = useState<{id: string, name: string}[]>([]);
   const [fileMenuVisible, setFileMenuVisible] = useState(false);
+  const [libraryVisible, setLibraryVisible] = useState(false);
+  const [pdfDialogVisible, setPdfDialogVisible] = useState(false);
+  const [imageDialogVisible, setImageDialogVisible] = useState(false);
+  const [historyVisible, setHistoryVisible] = useState(false);
+  const [mergeDialogVisible, setMergeDialogVisible] = useState(false);
+  const [collaborationVisible, setCollaborationVisible] = useState(false);
   
   const hasSelection = selectedNodeIds.length > 0;
   const hasSingleSelection = selectedNodeIds.length === 1;
+  const selectedNode = hasSingleSelection ? findNodeById(nodes, selectedNodeIds[0]) : null;
   
   // 处理添加子节点
   const handleAddChild = useCallback(() => {
@@ -302,6 +358,13 @@ const Toolbar: React.FC = () => {
     }
   }, [hasSingleSelection, selectedNodeIds, setEditingNodeId]);
   
+  // 设置节点日期，清空输入框时清除日期
+  const handleDateChange = useCallback((date: string) => {
+    if (hasSingleSelection) {
+      updateNodeDate(selectedNodeIds[0], date || undefined);
+    }
+  }, [hasSingleSelection, selectedNodeIds, updateNodeDate]);
+  
   // 处理撤销
   const handleUndo = useCallback(() => {
     undo();
@@ -323,44 +386,29 @@ const Toolbar: React.FC = () => {
     setZoom(Math.max(0.5, zoom * 0.8));
   }, [zoom, setZoom]);
   
-  // 导出思维导图为PNG
-  const handleExport = useCallback(async () => {
-    const svgElement = document.querySelector('svg');
-    if (!svgElement) {
-      message.error('未找到思维导图元素');
-      return;
-    }
-    
-    const svgContainer = document.querySelector('.mindmap-container') as HTMLElement;
-    if (!svgContainer) {
-      message.error('未找到思维导图容器');
-      return;
-    }
-    
-    message.loading({ content: '正在导出思维导图...', key: 'export' });
-    
+  // 自动平衡左右分支
+  const handleBalanceLayout = useCallback(() => {
+    balanceLayout();
+    message.info('已平衡左右分支');
+  }, [balanceLayout]);
+  
+  // 打开图片导出对话框（根据数据生成SVG后绘制，不受当前缩放影响）
+  const handleExport = useCallback(() => {
+    setImageDialogVisible(true);
+  }, []);
+  
+  // 导出思维导图为SVG矢量图
+  const handleExportSVG = useCallback(() => {
     try {
-      // 使用html2canvas导出
-      const canvas = await html2canvas(svgContainer, {
-        allowTaint: true,
-        useCORS: true,
-        scale: 2, // 提高清晰度
-        backgroundColor: '#f5f5f5'
-      });
-      
-      // 转换为图片并下载
-      const dataUrl = canvas.toDataURL('image/png');
-      const link = document.createElement('a');
-      link.download = `mindmap-export-${new Date().toISOString().slice(0, 10)}.png`;
-      link.href = dataUrl;
-      link.click();
-      
-      message.success({ content: '导出成功', key: 'export' });
-    } catch (err) {
-      console.error('导出失败:', err);
-      message.error({ content: '导出失败，请重试', key: 'export' });
+      const blob = new Blob([exportToSVG()], { type: 'image/svg+xml' });
+      downloadBlob(blob, getExportFileName('svg'));
+      message.success('思维导图已导出为SVG文件');
+    } catch (error) {
+      console.error('导出SVG失败:', error);
+      message.error('导出SVG失败，请重试');
     }
-  }, []);
+    setFileMenuVisible(false);
+  }, [exportToSVG, setFileMenuVisible]);
   
   // 处理新建思维导图
   const handleCreateNew = useCallback(() => {
@@ -381,12 +429,67 @@ const Toolbar: React.FC = () => {
     setFileMenuVisible(false);
   }, [createEmptyMindMap, setFileMenuVisible]);
   
-  // 处理保存
+  // 处理保存，关联了本地文件时同时写回该文件
   const handleSave = useCallback(async () => {
+    setFileMenuVisible(false);
     await saveToLocalStorage();
-    message.success('思维导图已保存');
+    if (!currentFile) {
+      message.success('思维导图已保存');
+      return;
+    }
+    
+    const result = await saveFile();
+    if (result === 'done') {
+      message.success(currentFile.writable ? `已保存到 ${currentFile.name}` : `已下载 ${currentFile.name}`);
+    } else if (result === 'failed') {
+      message.error('保存到文件失败');
+    }
+  }, [saveToLocalStorage, saveFile, currentFile, setFileMenuVisible]);
+  
+  // 打开本地文件，不支持File System Access API时使用文件选择框
+  const handleOpenFile = useCallback(async () => {
     setFileMenuVisible(false);
-  }, [saveToLocalStorage, setFileMenuVisible]);
+    if (!isFileSystemAccessSupported()) {
+      openFileInputRef.current?.click();
+      return;
+    }
+    
+    const result = await openFile();
+    if (result === 'done') {
+      message.success('文件已打开');
+    } else if (result === 'failed') {
+      message.error('打开文件失败，文件格式不正确');
+    }
+  }, [openFile, setFileMenuVisible]);
+  
+  // 处理通过文件选择框打开的文件
+  const handleOpenFileInput = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    
+    const result = await openFile(file);
+    if (result === 'done') {
+      message.success('文件已打开');
+    } else if (result === 'failed') {
+      message.error('打开文件失败，文件格式不正确');
+    }
+    
+    if (openFileInputRef.current) {
+      openFileInputRef.current.value = '';
+    }
+  };
+  
+  // 另存为本地文件
+  const handleSaveFileAs = useCallback(async (format: MindMapFileFormat) => {
+    setFileMenuVisible(false);
+    const result = await saveFileAs(format);
+    if (result === 'done') {
+      const { currentFile: file } = useMindMapStore.getState();
+      message.success(file?.writable ? `已保存到 ${file.name}` : `已下载 ${file?.name}`);
+    } else if (result === 'failed') {
+      message.error('另存为文件失败');
+    }
+  }, [saveFileAs, setFileMenuVisible]);
   
   // 处理导出JSON
   const handleExportJSON = useCallback(() => {
@@ -394,51 +497,154 @@ const Toolbar: React.FC = () => {
     
     // 创建下载链接
     const blob = new Blob([jsonData], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.download = `mindmap-export-${new Date().toISOString().slice(0, 10)}.json`;
-    link.href = url;
-    link.click();
-    
-    // 释放URL对象
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, getExportFileName('json'));
     
     message.success('思维导图已导出为JSON文件');
   }, [exportToJSON]);
   
+  // 处理导出XMind
+  const handleExportXMind = useCallback(async () => {
+    try {
+      const blob = await exportToXMind();
+      downloadBlob(blob, getExportFileName('xmind'));
+      message.success('思维导图已导出为XMind文件');
+    } catch (error) {
+      console.error('导出XMind失败:', error);
+      message.error('导出XMind失败，请重试');
+    }
+    setFileMenuVisible(false);
+  }, [exportToXMind, setFileMenuVisible]);
+  
+  // 处理导出Word文档
+  const handleExportDocx = useCallback(async () => {
+    setFileMenuVisible(false);
+    message.loading({ content: '正在生成Word文档...', key: 'exportDocx' });
+    try {
+      const blob = await exportToDocx();
+      downloadBlob(blob, getExportFileName('docx'));
+      message.success({ content: '思维导图已导出为Word文档', key: 'exportDocx' });
+    } catch (error) {
+      console.error('导出Word失败:', error);
+      message.error({ content: '导出Word失败，请重试', key: 'exportDocx' });
+    }
+  }, [exportToDocx, setFileMenuVisible]);
+  
+  // 处理导出FreeMind
+  const handleExportFreeMind = useCallback(() => {
+    try {
+      const blob = new Blob([exportToFreeMind()], { type: 'application/x-freemind' });
+      downloadBlob(blob, getExportFileName('mm'));
+      message.success('思维导图已导出为FreeMind文件');
+    } catch (error) {
+      console.error('导出FreeMind失败:', error);
+      message.error('导出FreeMind失败，请重试');
+    }
+    setFileMenuVisible(false);
+  }, [exportToFreeMind, setFileMenuVisible]);
+  
+  // 处理导出Markdown
+  const handleExportMarkdown = useCallback(() => {
+    try {
+      const blob = new Blob([exportToMarkdown()], { type: 'text/markdown' });
+      downloadBlob(blob, getExportFileName('md'));
+      message.success('思维导图已导出为Markdown文件');
+    } catch (error) {
+      console.error('导出Markdown失败:', error);
+      message.error('导出Markdown失败，请重试');
+    }
+    setFileMenuVisible(false);
+  }, [exportToMarkdown, setFileMenuVisible]);
+  
+  // 处理导出OPML
+  const handleExportOPML = useCallback(() => {
+    try {
+      const blob = new Blob([exportToOPML()], { type: 'text/x-opml' });
+      downloadBlob(blob, getExportFileName('opml'));
+      message.success('思维导图已导出为OPML文件');
+    } catch (error) {
+      console.error('导出OPML失败:', error);
+      message.error('导出OPML失败，请重试');
+    }
+    setFileMenuVisible(false);
+  }, [exportToOPML, setFileMenuVisible]);
+  
   // 触发文件选择对话框
-  const handleImportClick = useCallback(() => {
+  const handleImportClick = useCallback((format: ImportFormat = 'json') => {
+    setImportFormat(format);
     if (fileInputRef.current) {
+      fileInputRef.current.accept = IMPORT_ACCEPT[format];
       fileInputRef.current.click();
     }
   }, []);
   
+  // 根据导入格式解析文件内容
+  const importFileContent = async (file: File, format: ImportFormat): Promise<boolean> => {
+    switch (format) {
+      case 'xmind':
+        return importFromXMind(await file.arrayBuffer());
+      case 'freemind':
+        return importFromFreeMind(await file.text());
+      case 'markdown':
+        // 没有一级标题作为根节点时，使用文件名作为中心主题
+        return importFromMarkdown(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      case 'opml':
+        // 包含多个顶级条目时，使用文件名作为中心主题
+        return importFromOPML(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      case 'json':
+      default:
+        return importFromJSON(await file.text());
+    }
+  };
+  
   // 处理文件导入
-  const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
     
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      if (content) {
-        const success = importFromJSON(content);
-        if (success) {
-          message.success('思维导图已成功导入');
-        } else {
-          message.error('导入失败，文件格式不正确');
-        }
+    try {
+      const success = await importFileContent(file, importFormat);
+      if (success) {
+        message.success('思维导图已成功导入');
+      } else {
+        message.error('导入失败，文件格式不正确');
       }
-      
-      // 重置文件输入，以便可以再次选择同一个文件
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+    } catch (error) {
+      console.error('读取文件失败:', error);
+      message.error('读取文件失败');
+    }
+    
+    // 重置文件输入，以便可以再次选择同一个文件
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    setFileMenuVisible(false);
+  };
+  
+  // 选择作为对比基准的JSON文件
+  const handleCompareClick = useCallback(() => {
+    compareInputRef.current?.click();
+  }, []);
+  
+  // 处理对比文件
+  const handleCompareFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    
+    try {
+      if (compareWithJSON(await file.text(), file.name)) {
+        message.success('已在画布上标出与所选文件的差异');
+      } else {
+        message.error('对比失败，文件格式不正确');
       }
-    };
-    reader.onerror = () => {
+    } catch (error) {
+      console.error('读取文件失败:', error);
       message.error('读取文件失败');
-    };
-    reader.readAsText(file);
+    }
+    
+    if (compareInputRef.current) {
+      compareInputRef.current.value = '';
+    }
+    setFileMenuVisible(false);
   };
   
   // 修改节点背景色
@@ -665,6 +871,15 @@ const Toolbar: React.FC = () => {
         return;
       }
       
+      // Ctrl+O: 打开本地文件
+      if (isModifierKeyPressed && e.key.toLowerCase() === 'o' && !e.shiftKey) {
+        e.preventDefault();
+        window.keyEventHandled = true;
+        console.log('触发快捷键：Ctrl+O - 打开文件');
+        handleOpenFile();
+        return;
+      }
+      
       // Ctrl+Shift+E: 导出JSON（原Ctrl+E）
       if (isModifierKeyPressed && e.shiftKey && e.key.toLowerCase() === 'e') {
         e.preventDefault();
@@ -892,6 +1107,7 @@ const Toolbar: React.FC = () => {
     handleZoomOut,
     handleCreateNew,
     handleSave,
+    handleOpenFile,
     handleExportJSON,
     handleImportClick,
     handleShowTemplates,
@@ -937,15 +1153,75 @@ const Toolbar: React.FC = () => {
             <MenuItem onClick={handleCreateNew}>
               <PlusOutlined /> 新建空白思维导图 <span style={{ color: '#999', fontSize: '12px' }}>Ctrl+N</span>
             </MenuItem>
+            <MenuItem onClick={() => {
+              setLibraryVisible(true);
+              setFileMenuVisible(false);
+            }}>
+              <FolderOpenOutlined /> 我的思维导图
+            </MenuItem>
+            <MenuItem onClick={handleOpenFile}>
+              <FolderOpenOutlined /> 打开文件… <span style={{ color: '#999', fontSize: '12px' }}>Ctrl+O</span>
+            </MenuItem>
             <MenuItem onClick={handleSave}>
-              <SaveOutlined /> 保存 <span style={{ color: '#999', fontSize: '12px' }}>Ctrl+S</span>
+              <SaveOutlined /> {currentFile ? '保存到文件' : '保存'} <span style={{ color: '#999', fontSize: '12px' }}>Ctrl+S</span>
+            </MenuItem>
+            <MenuItem onClick={() => handleSaveFileAs('json')}>
+              <FileAddOutlined /> 另存为JSON文件…
+            </MenuItem>
+            <MenuItem onClick={() => handleSaveFileAs('xmind')}>
+              <FileAddOutlined /> 另存为XMind文件…
             </MenuItem>
             <MenuItem onClick={handleExportJSON}>
               <SnippetsOutlined style={{ fontSize: '16px', color: '#1890ff' }} /> 导出JSON <span style={{ color: '#999', fontSize: '12px' }}>Ctrl+Shift+E</span>
             </MenuItem>
-            <MenuItem onClick={handleImportClick}>
+            <MenuItem onClick={() => handleImportClick('json')}>
               <ImportOutlined style={{ fontSize: '16px', color: '#1890ff' }} /> 导入JSON <span style={{ color: '#999', fontSize: '12px' }}>Ctrl+Shift+O</span>
             </MenuItem>
+            <MenuItem onClick={handleCompareClick}>
+              <DiffOutlined style={{ fontSize: '16px', color: '#1890ff' }} /> 与JSON文件对比
+            </MenuItem>
+            <MenuItem onClick={() => {
+              setMergeDialogVisible(true);
+              setFileMenuVisible(false);
+            }}>
+              <MergeOutlined style={{ fontSize: '16px', color: '#1890ff' }} /> 合并JSON文件
+            </MenuItem>
+            <MenuItem onClick={handleExportOPML}>
+              <ExportOutlined style={{ fontSize: '16px', color: '#2f54eb' }} /> 导出OPML
+            </MenuItem>
+            <MenuItem onClick={() => handleImportClick('opml')}>
+              <ImportOutlined style={{ fontSize: '16px', color: '#2f54eb' }} /> 导入OPML
+            </MenuItem>
+            <MenuItem onClick={handleExportSVG}>
+              <FileImageOutlined style={{ fontSize: '16px', color: '#13c2c2' }} /> 导出SVG
+            </MenuItem>
+            <MenuItem onClick={() => {
+              setPdfDialogVisible(true);
+              setFileMenuVisible(false);
+            }}>
+              <FilePdfOutlined style={{ fontSize: '16px', color: '#f5222d' }} /> 导出PDF
+            </MenuItem>
+            <MenuItem onClick={handleExportDocx}>
+              <FileWordOutlined style={{ fontSize: '16px', color: '#1677ff' }} /> 导出Word
+            </MenuItem>
+            <MenuItem onClick={handleExportXMind}>
+              <ExportOutlined style={{ fontSize: '16px', color: '#fa8c16' }} /> 导出XMind
+            </MenuItem>
+            <MenuItem onClick={() => handleImportClick('xmind')}>
+              <ImportOutlined style={{ fontSize: '16px', color: '#fa8c16' }} /> 导入XMind
+            </MenuItem>
+            <MenuItem onClick={handleExportFreeMind}>
+              <ExportOutlined style={{ fontSize: '16px', color: '#52c41a' }} /> 导出FreeMind
+            </MenuItem>
+            <MenuItem onClick={() => handleImportClick('freemind')}>
+              <ImportOutlined style={{ fontSize: '16px', color: '#52c41a' }} /> 导入FreeMind
+            </MenuItem>
+            <MenuItem onClick={handleExportMarkdown}>
+              <ExportOutlined style={{ fontSize: '16px', color: '#722ed1' }} /> 导出Markdown
+            </MenuItem>
+            <MenuItem onClick={() => handleImportClick('markdown')}>
+              <ImportOutlined style={{ fontSize: '16px', color: '#722ed1' }} /> 导入Markdown
+            </MenuItem>
             <MenuItem onClick={() => {
               setNewTemplateModalVisible(true);
               setFileMenuVisible(false);
@@ -989,6 +1265,26 @@ const Toolbar: React.FC = () => {
             disabled={!hasSingleSelection}
           />
         </Tooltip>
+        <Popover
+          trigger="click"
+          title="节点日期"
+          content={
+            <Input
+              type="date"
+              size="small"
+              value={selectedNode?.date || ''}
+              onChange={e => handleDateChange(e.target.value)}
+            />
+          }
+        >
+          <Tooltip title="节点日期（时间轴布局按日期排列）">
+            <Button
+              type="text"
+              icon={<CalendarOutlined style={selectedNode?.date ? { color: '#1890ff' } : undefined} />}
+              disabled={!hasSingleSelection}
+            />
+          </Tooltip>
+        </Popover>
       </ToolbarGroup>
       
       <Divider type="vertical" />
@@ -1000,6 +1296,23 @@ const Toolbar: React.FC = () => {
         <Tooltip title={`重做 (Ctrl+Y)`}>
           <Button type="text" icon={<RedoOutlined />} onClick={handleRedo} />
         </Tooltip>
+        <Tooltip title="版本历史">
+          <Button type="text" icon={<HistoryOutlined />} onClick={() => setHistoryVisible(true)} />
+        </Tooltip>
+        <Tooltip title={collaboration ? `实时协作（${collaborators.length + 1}人在线）` : '实时协作'}>
+          <Button
+            type="text"
+            icon={<TeamOutlined style={collaboration ? { color: '#52c41a' } : undefined} />}
+            onClick={() => setCollaborationVisible(true)}
+          />
+        </Tooltip>
+        <Tooltip title="评论">
+          <Button
+            type="text"
+            icon={<CommentOutlined style={commentsPanelOpen ? { color: '#1890ff' } : undefined} />}
+            onClick={() => setCommentsPanelOpen(!commentsPanelOpen)}
+          />
+        </Tooltip>
       </ToolbarGroup>
       
       <Divider type="vertical" />
@@ -1011,6 +1324,23 @@ const Toolbar: React.FC = () => {
         <Tooltip title={`缩小 (Ctrl+-)`}>
           <Button type="text" icon={<ZoomOutOutlined />} onClick={handleZoomOut} />
         </Tooltip>
+        <Tooltip title="布局">
+          <Select<LayoutType>
+            size="small"
+            style={{ width: 150 }}
+            value={layout}
+            onChange={setLayout}
+            options={LAYOUT_STRATEGIES.map(strategy => ({ label: strategy.name, value: strategy.type }))}
+          />
+        </Tooltip>
+        <Tooltip title="自动平衡左右分支（思维导图布局）">
+          <Button
+            type="text"
+            icon={<ColumnWidthOutlined />}
+            onClick={handleBalanceLayout}
+            disabled={layout !== 'mindmap'}
+          />
+        </Tooltip>
       </ToolbarGroup>
       
       <Divider type="vertical" />
@@ -1055,11 +1385,61 @@ const Toolbar: React.FC = () => {
           type="file"
           ref={fileInputRef}
           onChange={handleFileImport}
+          accept={IMPORT_ACCEPT[importFormat]}
+          style={{ display: 'none' }}
+        />
+        <input
+          type="file"
+          ref={openFileInputRef}
+          onChange={handleOpenFileInput}
+          accept=".json,.xmind"
+          style={{ display: 'none' }}
+        />
+        <input
+          type="file"
+          ref={compareInputRef}
+          onChange={handleCompareFile}
           accept=".json"
           style={{ display: 'none' }}
         />
       </ToolbarGroup>
       
+      {/* 文档库对话框 */}
+      <DocumentLibrary
+        open={libraryVisible}
+        onClose={() => setLibraryVisible(false)}
+      />
+      
+      {/* 版本历史面板 */}
+      <HistoryPanel
+        open={historyVisible}
+        onClose={() => setHistoryVisible(false)}
+      />
+      
+      {/* 实时协作对话框 */}
+      <CollaborationDialog
+        open={collaborationVisible}
+        onClose={() => setCollaborationVisible(false)}
+      />
+      
+      {/* 三方合并对话框 */}
+      <MergeDialog
+        open={mergeDialogVisible}
+        onClose={() => setMergeDialogVisible(false)}
+      />
+      
+      {/* 图片导出对话框 */}
+      <ImageExportDialog
+        open={imageDialogVisible}
+        onClose={() => setImageDialogVisible(false)}
+      />
+      
+      {/* PDF导出对话框 */}
+      <PdfExportDialog
+        open={pdfDialogVisible}
+        onClose={() => setPdfDialogVisible(false)}
+      />
+      
       {/* 新模板对话框 */}
       <Modal
         title="保存为模板"
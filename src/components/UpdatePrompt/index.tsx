@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Alert, Button, Space, message } from 'antd';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import useMindMapStore from '@/store';
+
+// 检查新版本的间隔
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const PromptContainer = styled.div`
+  position: fixed;
+  left: 50%;
+  bottom: 24px;
+  transform: translateX(-50%);
+  z-index: 1100;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+`;
+
+// Service Worker注册与新版本提示：离线缓存就绪时提示一次，有新版本时由用户决定何时刷新
+const UpdatePrompt: React.FC = () => {
+  const { saveToLocalStorage } = useMindMapStore();
+  const [updating, setUpdating] = useState(false);
+
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker
+  } = useRegisterSW({
+    onOfflineReady() {
+      message.success('WebXmind 已缓存到本地，断网时也可以使用');
+    },
+    onRegisteredSW(_swUrl, registration) {
+      // 长时间打开的页面定期检查新版本
+      if (registration) {
+        setInterval(() => {
+          if (navigator.onLine) registration.update();
+        }, UPDATE_CHECK_INTERVAL);
+      }
+    },
+    onRegisterError(error) {
+      console.error('注册Service Worker失败:', error);
+    }
+  });
+
+  // 先保存当前思维导图，再切换到新版本并刷新页面
+  const handleUpdate = async () => {
+    setUpdating(true);
+    try {
+      await saveToLocalStorage();
+      await updateServiceWorker(true);
+    } catch (error) {
+      console.error('更新到新版本失败:', error);
+      message.error('更新失败，请稍后刷新页面重试');
+      setUpdating(false);
+    }
+  };
+
+  if (!needRefresh) return null;
+
+  return (
+    <PromptContainer>
+      <Alert
+        type="info"
+        showIcon
+        message="WebXmind 有新版本可用"
+        description="刷新后即可使用新版本，当前的思维导图会先自动保存。"
+        action={
+          <Space direction="vertical">
+            <Button size="small" type="primary" loading={updating} onClick={handleUpdate}>
+              立即刷新
+            </Button>
+            <Button size="small" onClick={() => setNeedRefresh(false)}>
+              稍后
+            </Button>
+          </Space>
+        }
+      />
+    </PromptContainer>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,219 @@
+import * as Y from 'yjs';
+import { MindMapData, MindMapFile, MindMapFileNode, Relationship, BackgroundConfig, LayoutType } from '@/types/mindmap';
+import { parseMindMapFile, serializeMindMap, CURRENT_FORMAT_VERSION } from '@/core/converters/json';
+import { isSameValue } from '@/core/utils/map-diff';
+
+/**
+ * 思维导图的CRDT文档模型（基于Yjs）
+ * 每个节点是nodes中以ID为键的Y.Map，字段各自独立合并；父节点用parent引用，同级顺序用order小数排序，
+ * 因此多人同时修改同一节点的不同字段、在同一父节点下添加节点都能确定地合并。
+ * 并发移动造成的父节点循环或父节点被删除时，读取时按节点ID确定地挂到根节点下，各端得到相同的结果。
+ */
+
+// 节点在文档中同步的字段（位置由各端本地布局计算，不同步）
+const NODE_FIELDS = [
+  'content', 'parent', 'style', 'expanded', 'direction', 'note', 'icon', 'image', 'refId', 'isReference', 'meta', 'comments', 'date'
+] as const;
+const RELATIONSHIP_FIELDS = ['sourceId', 'targetId', 'label', 'style'] as const;
+
+type FieldMap = Y.Map<unknown>;
+
+const getNodesMap = (doc: Y.Doc) => doc.getMap<FieldMap>('nodes');
+const getRelationshipsMap = (doc: Y.Doc) => doc.getMap<FieldMap>('relationships');
+const getSettingsMap = (doc: Y.Doc) => doc.getMap<unknown>('settings');
+
+// 按字段写入Y.Map，只写入变化的字段，未设置的字段删除
+const writeFields = (map: FieldMap, record: Record<string, unknown>, fields: readonly string[]): void => {
+  fields.forEach(field => {
+    const value = record[field];
+    if (value === undefined) {
+      if (map.has(field)) map.delete(field);
+    } else if (!map.has(field) || !isSameValue(map.get(field), value)) {
+      map.set(field, value);
+    }
+  });
+};
+
+// 为同级节点分配顺序值：尽量保留文档中已有的顺序值，只给位置变化的节点重新分配
+const assignOrders = (ids: string[], existing: (id: string) => number | undefined): Map<string, number> => {
+  const kept = new Array<boolean>(ids.length).fill(false);
+  let previous = -Infinity;
+  ids.forEach((id, index) => {
+    const order = existing(id);
+    if (order !== undefined && order > previous) {
+      kept[index] = true;
+      previous = order;
+    }
+  });
+
+  const orders = new Map<string, number>();
+  previous = -Infinity;
+  ids.forEach((id, index) => {
+    if (kept[index]) {
+      previous = existing(id)!;
+    } else {
+      // 取前一个节点和后面第一个保留顺序值的节点之间的中点
+      const nextIndex = kept.indexOf(true, index + 1);
+      const next = nextIndex >= 0 ? existing(ids[nextIndex])! : undefined;
+      if (previous === -Infinity) previous = next === undefined ? 0 : next - 1;
+      else previous = next === undefined ? previous + 1 : (previous + next) / 2;
+    }
+    orders.set(id, previous);
+  });
+  return orders;
+};
+
+// 把本地的思维导图写入文档，只产生与文档内容不同的修改
+export const writeMindMapToDoc = (doc: Y.Doc, data: MindMapData, origin?: unknown): void => {
+  const file = serializeMindMap(data);
+  const nodesMap = getNodesMap(doc);
+  const relationshipsMap = getRelationshipsMap(doc);
+
+  // 按父节点分组计算同级顺序，文档中父节点相同的节点沿用原来的顺序值
+  const siblings = new Map<string, string[]>();
+  file.nodes.forEach(node => {
+    const key = node.parent ?? '';
+    siblings.set(key, [...(siblings.get(key) || []), node.id]);
+  });
+  const orders = new Map<string, number>();
+  siblings.forEach((ids, parent) => {
+    assignOrders(ids, id => {
+      const map = nodesMap.get(id);
+      if (!map || (map.get('parent') ?? '') !== parent) return undefined;
+      const order = map.get('order');
+      return typeof order === 'number' ? order : undefined;
+    }).forEach((order, id) => orders.set(id, order));
+  });
+
+  doc.transact(() => {
+    const ids = new Set(file.nodes.map(node => node.id));
+    Array.from(nodesMap.keys()).forEach(id => {
+      if (!ids.has(id)) nodesMap.delete(id);
+    });
+    file.nodes.forEach(node => {
+      let map = nodesMap.get(node.id);
+      if (!map) {
+        map = new Y.Map<unknown>();
+        nodesMap.set(node.id, map);
+      }
+      // 根节点的parent写为null，便于与"字段不存在"区分
+      writeFields(map, { ...node, parent: node.parent ?? null, order: orders.get(node.id) }, [...NODE_FIELDS, 'order']);
+    });
+
+    const relationshipIds = new Set(file.relationships.map(relationship => relationship.id));
+    Array.from(relationshipsMap.keys()).forEach(id => {
+      if (!relationshipIds.has(id)) relationshipsMap.delete(id);
+    });
+    file.relationships.forEach(relationship => {
+      let map = relationshipsMap.get(relationship.id);
+      if (!map) {
+        map = new Y.Map<unknown>();
+        relationshipsMap.set(relationship.id, map);
+      }
+      writeFields(map, relationship as unknown as Record<string, unknown>, RELATIONSHIP_FIELDS);
+    });
+
+    writeFields(getSettingsMap(doc) as FieldMap, { background: data.background, layout: data.layout }, ['background', 'layout']);
+  }, origin);
+};
+
+// 文档是否已有内容
+export const isDocEmpty = (doc: Y.Doc): boolean => getNodesMap(doc).size === 0;
+
+// 确定每个节点实际挂载的父节点：修复多根、父节点缺失和父节点循环
+const resolveParents = (records: Map<string, MindMapFileNode>): { rootId: string; parents: Map<string, string> } => {
+  const ids = Array.from(records.keys()).sort();
+  const roots = ids.filter(id => records.get(id)!.parent === undefined);
+  const rootId = roots[0] || ids[0];
+
+  const parents = new Map<string, string>();
+  ids.forEach(id => {
+    const parent = records.get(id)!.parent;
+    if (id === rootId) return;
+    // 多余的根节点挂到根节点下
+    parents.set(id, parent !== undefined && records.has(parent) ? parent : rootId);
+  });
+
+  // 从根节点无法到达的节点处于父节点循环中，每次把循环中ID最小的节点挂到根节点下
+  for (;;) {
+    const children = new Map<string, string[]>();
+    parents.forEach((parent, id) => children.set(parent, [...(children.get(parent) || []), id]));
+    const reachable = new Set<string>([rootId]);
+    const queue = [rootId];
+    while (queue.length > 0) {
+      (children.get(queue.shift()!) || []).forEach(child => {
+        reachable.add(child);
+        queue.push(child);
+      });
+    }
+    const detached = ids.filter(id => !reachable.has(id));
+    if (detached.length === 0) break;
+
+    // 沿父节点链找到循环，取循环中ID最小的节点
+    const chain: string[] = [];
+    let current = detached[0];
+    while (!chain.includes(current)) {
+      chain.push(current);
+      current = parents.get(current)!;
+    }
+    const cycle = chain.slice(chain.indexOf(current)).sort();
+    parents.set(cycle[0], rootId);
+  }
+
+  return { rootId, parents };
+};
+
+// 从文档读取思维导图
+export const readMindMapFromDoc = (doc: Y.Doc): MindMapData | null => {
+  const nodesMap = getNodesMap(doc);
+  if (nodesMap.size === 0) return null;
+
+  const records = new Map<string, MindMapFileNode>();
+  const orders = new Map<string, number>();
+  nodesMap.forEach((map, id) => {
+    const record = map.toJSON() as Record<string, unknown>;
+    const { order, parent, ...fields } = record;
+    records.set(id, {
+      ...fields,
+      id,
+      parent: typeof parent === 'string' ? parent : undefined,
+      level: 0,
+      expanded: record.expanded !== false,
+      style: (record.style as MindMapFileNode['style']) || {},
+      content: typeof record.content === 'string' ? record.content : ''
+    } as MindMapFileNode);
+    orders.set(id, typeof order === 'number' ? order : 0);
+  });
+
+  const { rootId, parents } = resolveParents(records);
+
+  // 按顺序值排序同级节点，顺序值相同（并发插入）时按ID排序
+  const children = new Map<string, string[]>();
+  parents.forEach((parent, id) => children.set(parent, [...(children.get(parent) || []), id]));
+  children.forEach(ids => ids.sort((a, b) => (orders.get(a)! - orders.get(b)!) || (a < b ? -1 : a > b ? 1 : 0)));
+
+  const nodes: MindMapFileNode[] = [];
+  const visit = (id: string) => {
+    nodes.push({ ...records.get(id)!, parent: parents.get(id) });
+    (children.get(id) || []).forEach(visit);
+  };
+  visit(rootId);
+
+  const relationships: Relationship[] = [];
+  getRelationshipsMap(doc).forEach((map, id) => {
+    const relationship = { ...map.toJSON(), id } as Relationship;
+    if (records.has(relationship.sourceId) && records.has(relationship.targetId)) {
+      relationships.push({ ...relationship, style: relationship.style || {} });
+    }
+  });
+  relationships.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const file: MindMapFile = {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    nodes,
+    relationships,
+    background: getSettingsMap(doc).get('background') as BackgroundConfig | undefined,
+    layout: getSettingsMap(doc).get('layout') as LayoutType | undefined
+  };
+  return parseMindMapFile(file);
+};
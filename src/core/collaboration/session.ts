@@ -0,0 +1,190 @@
+import * as Y from 'yjs';
+import { MindMapData, NodePosition } from '@/types/mindmap';
+import { writeMindMapToDoc, readMindMapFromDoc, isDocEmpty } from './crdt';
+import { TransportFactory, TransportStatus } from './transport';
+
+/**
+ * 协作会话
+ * 在CRDT文档和传输层之间同步：本地修改以增量更新广播，新加入的客户端先发送状态向量请求缺失的更新；
+ * 同时广播每个参与者的光标和选中节点（在线状态），超时未收到心跳的参与者视为已离开。
+ */
+
+// 协作参与者的在线状态
+export interface CollaborationPeer {
+  clientId: string;
+  name: string;
+  color: string;
+  selection: string[];           // 选中的节点ID
+  cursor: NodePosition | null;   // 光标在画布中的位置，离开画布时为空
+}
+
+// 本地参与者可更新的在线状态
+export type PresenceUpdate = Partial<Pick<CollaborationPeer, 'selection' | 'cursor'>>;
+
+export interface CollaborationSessionOptions {
+  transport: TransportFactory;
+  name: string;
+  color: string;
+  onRemoteChange: (data: MindMapData) => void;
+  onPeersChange: (peers: CollaborationPeer[]) => void;
+  onStatusChange: (status: TransportStatus) => void;
+}
+
+export interface CollaborationSession {
+  clientId: string;
+  // 以本地内容初始化文档（创建房间时调用）
+  seed: (data: MindMapData) => void;
+  // 同步本地修改
+  update: (data: MindMapData) => void;
+  // 更新本地参与者的光标和选中节点
+  setPresence: (presence: PresenceUpdate) => void;
+  destroy: () => void;
+}
+
+// 消息类型，消息第一个字节为类型，其余为内容
+const MESSAGE_SYNC_REQUEST = 0;  // 内容为状态向量，收到后回复对方缺少的更新
+const MESSAGE_UPDATE = 1;        // 内容为Yjs增量更新
+const MESSAGE_PRESENCE = 2;      // 内容为JSON编码的在线状态
+const MESSAGE_LEAVE = 3;         // 内容为离开的客户端ID
+
+// 心跳间隔和在线状态的超时时间
+const PRESENCE_HEARTBEAT = 10000;
+const PRESENCE_TIMEOUT = 30000;
+
+// 参与者的显示颜色
+export const PEER_COLORS = ['#f5222d', '#fa8c16', '#52c41a', '#13c2c2', '#1890ff', '#722ed1', '#eb2f96', '#a0d911'];
+
+// 本地修改和远程更新的事务来源
+const LOCAL_ORIGIN = 'local';
+const REMOTE_ORIGIN = 'remote';
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const encodeMessage = (type: number, payload: Uint8Array): Uint8Array => {
+  const message = new Uint8Array(payload.length + 1);
+  message[0] = type;
+  message.set(payload, 1);
+  return message;
+};
+
+// 创建协作会话
+export const createCollaborationSession = (options: CollaborationSessionOptions): CollaborationSession => {
+  const doc = new Y.Doc();
+  const clientId = String(doc.clientID);
+  const peers = new Map<string, CollaborationPeer & { lastSeen: number }>();
+  const presence: CollaborationPeer = {
+    clientId,
+    name: options.name,
+    color: options.color,
+    selection: [],
+    cursor: null
+  };
+
+  const notifyPeers = () => {
+    options.onPeersChange(Array.from(peers.values()).map(({ clientId, name, color, selection, cursor }) => (
+      { clientId, name, color, selection, cursor }
+    )));
+  };
+
+  let transport: ReturnType<TransportFactory> | null = null;
+  const send = (type: number, payload: Uint8Array) => transport?.send(encodeMessage(type, payload));
+  const sendPresence = () => send(MESSAGE_PRESENCE, textEncoder.encode(JSON.stringify(presence)));
+
+  // 本地修改广播给其他客户端，远程更新应用到本地画布
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE_ORIGIN) {
+      try {
+        const data = readMindMapFromDoc(doc);
+        if (data) options.onRemoteChange(data);
+      } catch (error) {
+        console.error('读取协作文档失败:', error);
+      }
+    } else {
+      send(MESSAGE_UPDATE, update);
+    }
+  });
+
+  const handleMessage = (message: Uint8Array) => {
+    const payload = message.subarray(1);
+    switch (message[0]) {
+      case MESSAGE_SYNC_REQUEST:
+        send(MESSAGE_UPDATE, Y.encodeStateAsUpdate(doc, payload));
+        sendPresence();
+        break;
+      case MESSAGE_UPDATE:
+        Y.applyUpdate(doc, payload, REMOTE_ORIGIN);
+        break;
+      case MESSAGE_PRESENCE: {
+        const peer = JSON.parse(textDecoder.decode(payload)) as CollaborationPeer;
+        if (peer.clientId === clientId) break;
+        const isNew = !peers.has(peer.clientId);
+        peers.set(peer.clientId, { ...peer, lastSeen: Date.now() });
+        // 新参与者加入时回复自己的状态，使其立即看到已在线的参与者
+        if (isNew) sendPresence();
+        notifyPeers();
+        break;
+      }
+      case MESSAGE_LEAVE:
+        if (peers.delete(textDecoder.decode(payload))) notifyPeers();
+        break;
+    }
+  };
+
+  transport = options.transport({
+    onMessage: (message) => {
+      try {
+        handleMessage(message);
+      } catch (error) {
+        console.error('处理协作消息失败:', error);
+      }
+    },
+    onStatusChange: (status) => {
+      if (status === 'connected') {
+        // 连接（或重连）后请求缺失的更新，并发送本地的全部内容以补上离线期间的修改
+        send(MESSAGE_SYNC_REQUEST, Y.encodeStateVector(doc));
+        if (!isDocEmpty(doc)) send(MESSAGE_UPDATE, Y.encodeStateAsUpdate(doc));
+        sendPresence();
+      } else if (peers.size > 0) {
+        peers.clear();
+        notifyPeers();
+      }
+      options.onStatusChange(status);
+    }
+  });
+
+  // 定时发送心跳并清理超时的参与者
+  const heartbeat = setInterval(() => {
+    sendPresence();
+    const now = Date.now();
+    let changed = false;
+    peers.forEach((peer, id) => {
+      if (now - peer.lastSeen > PRESENCE_TIMEOUT) {
+        peers.delete(id);
+        changed = true;
+      }
+    });
+    if (changed) notifyPeers();
+  }, PRESENCE_HEARTBEAT);
+
+  return {
+    clientId,
+    seed: (data) => writeMindMapToDoc(doc, data, LOCAL_ORIGIN),
+    update: (data) => {
+      // 加入房间后收到文档内容之前，本地内容不写入文档，避免覆盖房间中的内容
+      if (isDocEmpty(doc)) return;
+      writeMindMapToDoc(doc, data, LOCAL_ORIGIN);
+    },
+    setPresence: (update) => {
+      Object.assign(presence, update);
+      sendPresence();
+    },
+    destroy: () => {
+      clearInterval(heartbeat);
+      send(MESSAGE_LEAVE, textEncoder.encode(clientId));
+      transport?.close();
+      transport = null;
+      doc.destroy();
+    }
+  };
+};
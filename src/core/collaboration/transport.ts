@@ -0,0 +1,88 @@
+/**
+ * 协作消息传输
+ * 传输层只负责把二进制消息广播给同一房间的其他客户端，协作会话不关心消息经由哪种方式送达
+ */
+
+// 连接状态
+export type TransportStatus = 'connecting' | 'connected' | 'disconnected';
+
+// 传输层回调
+export interface TransportHandlers {
+  onMessage: (message: Uint8Array) => void;
+  onStatusChange: (status: TransportStatus) => void;
+}
+
+// 传输层
+export interface CollaborationTransport {
+  send: (message: Uint8Array) => void;
+  close: () => void;
+}
+
+// 创建传输层的工厂，由协作会话传入回调
+export type TransportFactory = (handlers: TransportHandlers) => CollaborationTransport;
+
+// 同一浏览器的多个标签页之间通过BroadcastChannel通信
+export const createBroadcastChannelTransport = (room: string): TransportFactory => (handlers) => {
+  const channel = new BroadcastChannel(`webxmind-collaboration:${room}`);
+  channel.onmessage = (event: MessageEvent<Uint8Array>) => handlers.onMessage(event.data);
+
+  // 等会话初始化完成后再通知已连接
+  const timer = setTimeout(() => handlers.onStatusChange('connected'), 0);
+
+  return {
+    send: (message) => channel.postMessage(message),
+    close: () => {
+      clearTimeout(timer);
+      channel.close();
+      handlers.onStatusChange('disconnected');
+    }
+  };
+};
+
+// 断线重连的等待时间（毫秒），每次失败后加倍
+const RECONNECT_MIN_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 10000;
+
+// 通过WebSocket中继服务器与其他浏览器通信，断线后自动重连
+export const createWebSocketTransport = (relayUrl: string, room: string): TransportFactory => (handlers) => {
+  const url = `${relayUrl.replace(/\/$/, '')}/?room=${encodeURIComponent(room)}`;
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let delay = RECONNECT_MIN_DELAY;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const connect = () => {
+    handlers.onStatusChange('connecting');
+    socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+
+    socket.onopen = () => {
+      delay = RECONNECT_MIN_DELAY;
+      handlers.onStatusChange('connected');
+    };
+    socket.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+      handlers.onMessage(new Uint8Array(event.data));
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      handlers.onStatusChange('disconnected');
+      reconnectTimer = setTimeout(connect, delay);
+      delay = Math.min(delay * 2, RECONNECT_MAX_DELAY);
+    };
+  };
+
+  connect();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(message);
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      handlers.onStatusChange('disconnected');
+    }
+  };
+};
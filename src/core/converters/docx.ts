@@ -0,0 +1,189 @@
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  ImageRun,
+  HeadingLevel,
+  LevelFormat,
+  AlignmentType,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType
+} from 'docx';
+import { MindNode, NodeImage, MindMapData } from '@/types/mindmap';
+import { rasterizeImage } from '@/core/utils/image-export';
+import { getRootNode } from './utils';
+
+/**
+ * Word (.docx) 报告导出
+ * 根节点作为文档标题，前几级节点作为编号标题，更深的节点作为多级项目符号，
+ * 备注作为正文，节点图片嵌入文档，关系连线列在附录表格中
+ */
+
+// 作为编号标题输出的节点层级数，更深的节点输出为项目符号
+const HEADING_DEPTH = 3;
+const HEADING_LEVELS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+const HEADING_NUMBERING = 'mindmap-headings';
+
+// 图片的最大显示宽度（像素），约为A4纸正文宽度
+const MAX_IMAGE_WIDTH = 600;
+
+// 每级缩进（twip）
+const INDENT_STEP = 360;
+
+// Word可直接嵌入的图片格式
+const EMBEDDABLE_IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp'
+};
+
+// 多行文本转换为带换行的文本段
+const createTextRuns = (text: string, bold?: boolean): TextRun[] => {
+  return text.split('\n').map((line, index) => new TextRun({ text: line, bold, break: index > 0 ? 1 : 0 }));
+};
+
+// 读取节点图片，Word不支持的格式（如SVG、WebP）先转换为PNG
+const createImageRun = async (image: NodeImage): Promise<ImageRun | null> => {
+  try {
+    const response = await fetch(image.src);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const blob = await response.blob();
+    const ratio = Math.min(1, MAX_IMAGE_WIDTH / image.width);
+    const width = Math.round(image.width * ratio);
+    const height = Math.round(image.height * ratio);
+
+    const type = EMBEDDABLE_IMAGE_TYPES[blob.type];
+    const data = type
+      ? await blob.arrayBuffer()
+      : await (await rasterizeImage(image.src, width * 2, height * 2)).arrayBuffer();
+
+    return new ImageRun({
+      type: type || 'png',
+      data,
+      transformation: { width, height },
+      altText: image.alt ? { name: image.alt, description: image.alt } : undefined
+    });
+  } catch (error) {
+    // 跨域或失效的图片无法读取，跳过图片但保留节点内容
+    console.warn('无法嵌入节点图片:', image.src, error);
+    return null;
+  }
+};
+
+// 生成节点本身的段落（标题或项目符号）
+const createNodeParagraph = (node: MindNode, depth: number): Paragraph => {
+  if (depth === 0) {
+    return new Paragraph({ heading: HeadingLevel.TITLE, children: createTextRuns(node.content) });
+  }
+  if (depth <= HEADING_DEPTH) {
+    return new Paragraph({
+      heading: HEADING_LEVELS[depth - 1],
+      numbering: { reference: HEADING_NUMBERING, level: depth - 1 },
+      children: createTextRuns(node.content)
+    });
+  }
+  return new Paragraph({
+    bullet: { level: depth - HEADING_DEPTH - 1 },
+    children: createTextRuns(node.content)
+  });
+};
+
+// 生成节点及其子树的段落
+const createNodeSection = async (node: MindNode, depth: number): Promise<Paragraph[]> => {
+  const paragraphs = [createNodeParagraph(node, depth)];
+  // 项目符号节点的备注和图片与列表项对齐
+  const indent = depth > HEADING_DEPTH ? { left: INDENT_STEP * (depth - HEADING_DEPTH + 1) } : undefined;
+
+  if (node.image?.src) {
+    const imageRun = await createImageRun(node.image);
+    if (imageRun) {
+      paragraphs.push(new Paragraph({ indent, children: [imageRun] }));
+    }
+  }
+
+  if (node.note?.trim()) {
+    node.note.trim().split(/\n{2,}/).forEach(block => {
+      paragraphs.push(new Paragraph({ indent, children: createTextRuns(block) }));
+    });
+  }
+
+  for (const child of node.children) {
+    paragraphs.push(...await createNodeSection(child, depth + 1));
+  }
+
+  return paragraphs;
+};
+
+// 表格单元格
+const createCell = (text: string, bold?: boolean): TableCell => {
+  return new TableCell({ children: [new Paragraph({ children: createTextRuns(text, bold) })] });
+};
+
+// 生成关系连线附录
+const createRelationshipAppendix = (data: MindMapData): (Paragraph | Table)[] => {
+  const nodeMap = new Map(data.nodes.map(node => [node.id, node]));
+  const relationships = data.relationships.filter(
+    relationship => nodeMap.has(relationship.sourceId) && nodeMap.has(relationship.targetId)
+  );
+  if (relationships.length === 0) return [];
+
+  const rows = relationships.map(relationship => new TableRow({
+    children: [
+      createCell(nodeMap.get(relationship.sourceId)!.content),
+      createCell(nodeMap.get(relationship.targetId)!.content),
+      createCell(relationship.label || '')
+    ]
+  }));
+
+  return [
+    new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, text: '附录：关系连线' }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: [createCell('起始节点', true), createCell('目标节点', true), createCell('关系描述', true)]
+        }),
+        ...rows
+      ]
+    })
+  ];
+};
+
+// 生成Word文档
+export const createDocx = async (data: MindMapData): Promise<Blob> => {
+  const root = getRootNode(data.nodes);
+  if (!root) {
+    throw new Error('思维导图缺少根节点');
+  }
+
+  const document = new Document({
+    title: root.content,
+    numbering: {
+      config: [{
+        reference: HEADING_NUMBERING,
+        // 标题编号形如 1. / 1.1. / 1.1.1.
+        levels: Array.from({ length: HEADING_DEPTH }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: Array.from({ length: level + 1 }, (__, index) => `%${index + 1}.`).join(''),
+          alignment: AlignmentType.START
+        }))
+      }]
+    },
+    sections: [{
+      children: [
+        ...await createNodeSection(root, 0),
+        ...createRelationshipAppendix(data)
+      ]
+    }]
+  });
+
+  return Packer.toBlob(document);
+};
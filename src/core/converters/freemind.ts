@@ -0,0 +1,247 @@
+import { MindNode, NodeStyle, Relationship, MindMapData } from '@/types/mindmap';
+import { createNode } from '@/core/models/mindmap';
+import {
+  appendChildNode,
+  createRelationship,
+  setSubtreeDirection,
+  finalizeNodes,
+  getRootNode,
+  escapeXml,
+  escapeAttribute,
+  parseXml,
+  getChildElement,
+  getChildElements
+} from './utils';
+
+/**
+ * FreeMind / Freeplane (.mm) 导入导出
+ */
+
+// 待解析的箭头连线（目标节点可能尚未创建）
+interface PendingArrowLink {
+  sourceId: string;
+  destination: string;
+  label: string;
+  color?: string;
+}
+
+// 提取富文本内容为纯文本，段落之间以换行分隔
+const richContentToText = (element: Element): string => {
+  const blocks = Array.from(element.getElementsByTagName('*')).filter(
+    item => ['p', 'div', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'].includes(item.localName)
+  );
+
+  // 只取最内层的块元素，避免嵌套重复
+  const leafBlocks = blocks.filter(block => !blocks.some(other => other !== block && block.contains(other)));
+  const text = leafBlocks.length > 0
+    ? leafBlocks.map(block => (block.textContent || '').replace(/\s+/g, ' ').trim()).join('\n')
+    : (element.textContent || '');
+
+  return text.trim();
+};
+
+// 读取指定类型的richcontent
+const getRichContent = (element: Element, type: string): string | undefined => {
+  const richContent = getChildElements(element, 'richcontent').find(
+    item => (item.getAttribute('TYPE') || '').toUpperCase() === type
+  );
+  return richContent ? richContentToText(richContent) : undefined;
+};
+
+// 读取节点样式
+const readNodeStyle = (element: Element): Partial<NodeStyle> => {
+  const style: Partial<NodeStyle> = {};
+  const color = element.getAttribute('COLOR');
+  const backgroundColor = element.getAttribute('BACKGROUND_COLOR');
+  if (color) style.fontColor = color;
+  if (backgroundColor) style.backgroundColor = backgroundColor;
+
+  const font = getChildElement(element, 'font');
+  if (font) {
+    const size = parseInt(font.getAttribute('SIZE') || '', 10);
+    if (!isNaN(size)) style.fontSize = size;
+    if (font.getAttribute('BOLD') === 'true') style.fontWeight = 'bold';
+  }
+
+  return style;
+};
+
+// 把.mm节点元素的属性写入MindNode
+const applyElement = (node: MindNode, element: Element, pendingLinks: PendingArrowLink[]): void => {
+  if (element.getAttribute('FOLDED') === 'true') node.expanded = false;
+
+  const note = getRichContent(element, 'NOTE');
+  if (note) node.note = note;
+
+  const style = readNodeStyle(element);
+  if (Object.keys(style).length > 0) {
+    node.style = { ...node.style, ...style };
+  }
+
+  const meta: Record<string, unknown> = {};
+  const link = element.getAttribute('LINK');
+  if (link) meta.href = link;
+  const icons = getChildElements(element, 'icon')
+    .map(icon => icon.getAttribute('BUILTIN') || '')
+    .filter(Boolean);
+  if (icons.length > 0) meta.icons = icons;
+  const freemindId = element.getAttribute('ID');
+  if (freemindId) meta.freemindId = freemindId;
+  node.meta = { ...node.meta, ...meta };
+
+  getChildElements(element, 'arrowlink').forEach(arrowLink => {
+    const destination = arrowLink.getAttribute('DESTINATION');
+    if (destination) {
+      pendingLinks.push({
+        sourceId: node.id,
+        destination,
+        label: arrowLink.getAttribute('MIDDLE_LABEL') || '',
+        color: arrowLink.getAttribute('COLOR') || undefined
+      });
+    }
+  });
+};
+
+// 读取节点文本（Freeplane可能使用richcontent TYPE="NODE"存储富文本标题）
+const readNodeText = (element: Element): string => {
+  return element.getAttribute('TEXT') ?? getRichContent(element, 'NODE') ?? '';
+};
+
+// 递归转换子节点
+const convertChildren = (
+  parent: MindNode,
+  element: Element,
+  idMap: Map<string, string>,
+  pendingLinks: PendingArrowLink[]
+): void => {
+  getChildElements(element, 'node').forEach(childElement => {
+    const position = childElement.getAttribute('POSITION');
+    const direction = parent.level === 0 && (position === 'left' || position === 'right') ? position : undefined;
+    const child = appendChildNode(parent, readNodeText(childElement), direction);
+
+    const freemindId = childElement.getAttribute('ID');
+    if (freemindId) idMap.set(freemindId, child.id);
+
+    applyElement(child, childElement, pendingLinks);
+    convertChildren(child, childElement, idMap, pendingLinks);
+  });
+};
+
+// 解析.mm文件
+export const parseFreeMind = (text: string): MindMapData => {
+  const doc = parseXml(text);
+  const map = doc.documentElement;
+  if (!map || map.localName !== 'map') {
+    throw new Error('无效的FreeMind文件: 缺少map元素');
+  }
+
+  const rootElement = getChildElement(map, 'node');
+  if (!rootElement) {
+    throw new Error('无效的FreeMind文件: 缺少根节点');
+  }
+
+  const idMap = new Map<string, string>();
+  const pendingLinks: PendingArrowLink[] = [];
+
+  const root = createNode(readNodeText(rootElement) || '中心主题', undefined, 0);
+  const rootId = rootElement.getAttribute('ID');
+  if (rootId) idMap.set(rootId, root.id);
+  applyElement(root, rootElement, pendingLinks);
+  convertChildren(root, rootElement, idMap, pendingLinks);
+
+  // 确保每个一级子树方向一致
+  root.children.forEach(child => setSubtreeDirection(child, child.direction || 'right'));
+
+  const relationships: Relationship[] = [];
+  pendingLinks.forEach(link => {
+    const targetId = idMap.get(link.destination);
+    if (!targetId) return;
+    const relationship = createRelationship(link.sourceId, targetId, link.label);
+    if (link.color) relationship.style.lineColor = link.color;
+    relationships.push(relationship);
+  });
+
+  return { nodes: finalizeNodes(root), relationships };
+};
+
+// 生成.mm文件内容
+export const createFreeMind = (data: MindMapData): string => {
+  const root = getRootNode(data.nodes);
+  if (!root) {
+    throw new Error('思维导图缺少根节点');
+  }
+
+  // 为每个节点生成FreeMind ID
+  const idMap = new Map<string, string>();
+  let counter = 0;
+  const assignIds = (node: MindNode) => {
+    idMap.set(node.id, `ID_${++counter}`);
+    node.children.forEach(assignIds);
+  };
+  assignIds(root);
+
+  const linksBySource = new Map<string, Relationship[]>();
+  data.relationships.forEach(relationship => {
+    if (!idMap.has(relationship.sourceId) || !idMap.has(relationship.targetId)) return;
+    const links = linksBySource.get(relationship.sourceId) || [];
+    links.push(relationship);
+    linksBySource.set(relationship.sourceId, links);
+  });
+
+  const lines: string[] = ['<map version="1.0.1">'];
+
+  const writeNode = (node: MindNode, depth: number) => {
+    const indent = '  '.repeat(depth + 1);
+    const attributes = [
+      `TEXT="${escapeAttribute(node.content)}"`,
+      `ID="${idMap.get(node.id)}"`
+    ];
+    if (node.level === 1) attributes.push(`POSITION="${node.direction === 'left' ? 'left' : 'right'}"`);
+    if (!node.expanded && node.children.length > 0) attributes.push('FOLDED="true"');
+    if (node.style.fontColor) attributes.push(`COLOR="${escapeAttribute(node.style.fontColor)}"`);
+    if (node.style.backgroundColor) attributes.push(`BACKGROUND_COLOR="${escapeAttribute(node.style.backgroundColor)}"`);
+    if (typeof node.meta?.href === 'string') attributes.push(`LINK="${escapeAttribute(node.meta.href)}"`);
+
+    lines.push(`${indent}<node ${attributes.join(' ')}>`);
+
+    const bold = node.style.fontWeight === 'bold' || Number(node.style.fontWeight) >= 600;
+    if (node.style.fontSize || bold) {
+      const fontAttributes = ['NAME="SansSerif"', `SIZE="${node.style.fontSize || 14}"`];
+      if (bold) fontAttributes.push('BOLD="true"');
+      lines.push(`${indent}  <font ${fontAttributes.join(' ')}/>`);
+    }
+
+    if (Array.isArray(node.meta?.icons)) {
+      node.meta.icons.forEach((icon: unknown) => {
+        lines.push(`${indent}  <icon BUILTIN="${escapeAttribute(String(icon))}"/>`);
+      });
+    }
+
+    if (node.note) {
+      const paragraphs = node.note
+        .split(/\r?\n/)
+        .map(line => `<p>${escapeXml(line)}</p>`)
+        .join('');
+      lines.push(`${indent}  <richcontent TYPE="NOTE"><html><head></head><body>${paragraphs}</body></html></richcontent>`);
+    }
+
+    (linksBySource.get(node.id) || []).forEach(relationship => {
+      const linkAttributes = [
+        `DESTINATION="${idMap.get(relationship.targetId)}"`,
+        'ENDARROW="Default"',
+        'STARTARROW="None"'
+      ];
+      if (relationship.style.lineColor) linkAttributes.push(`COLOR="${escapeAttribute(relationship.style.lineColor)}"`);
+      if (relationship.label) linkAttributes.push(`MIDDLE_LABEL="${escapeAttribute(relationship.label)}"`);
+      lines.push(`${indent}  <arrowlink ${linkAttributes.join(' ')}/>`);
+    });
+
+    node.children.forEach(child => writeNode(child, depth + 1));
+    lines.push(`${indent}</node>`);
+  };
+
+  writeNode(root, 0);
+  lines.push('</map>');
+
+  return lines.join('\n');
+};
@@ -0,0 +1,362 @@
+import { MindNode, MindMapData, MindMapFile, MindMapFileNode } from '@/types/mindmap';
+import { DEFAULT_NODE_STYLE, ROOT_NODE_STYLE, DEFAULT_CONNECTION_STYLE } from '@/core/models/mindmap';
+import { isLayoutType } from '@/core/layouts/mindmap-layout';
+import { isValidNodeDate } from '@/core/utils/node-date';
+import { finalizeNodes, getRootNode, walkTree, omit } from './utils';
+
+/**
+ * JSON 文件格式
+ * 节点以扁平记录保存并通过parent引用父节点；读取时先按formatVersion逐级迁移，再校验结构，最后重建节点树
+ *
+ * 版本历史：
+ *   1 - 无formatVersion字段，nodes为store中的扁平数组，每个节点同时内嵌完整的children子树
+ *   2 - 增加formatVersion，节点记录不再内嵌children
+ */
+
+// 当前文件格式版本
+export const CURRENT_FORMAT_VERSION = 2;
+
+// 校验问题，path指向出错的字段（如 nodes[3].parent）
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// 文件结构校验失败
+export class MindMapFormatError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`思维导图文件格式错误:\n${issues.map(issue => `${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'MindMapFormatError';
+    this.issues = issues;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// 从旧版本迁移到下一版本，键为迁移前的版本号
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {
+  // v1 -> v2：从根节点的内嵌子树展开为扁平记录，补齐旧版本可能缺失的字段
+  1: (data) => {
+    const nodes = Array.isArray(data.nodes) ? data.nodes.filter(isObject) : [];
+    const root = nodes.find(node => node.level === 0) || nodes.find(node => !node.parent);
+    const records: JsonObject[] = [];
+    const visited = new Set<unknown>();
+
+    const visit = (node: JsonObject, parentId?: unknown) => {
+      if (visited.has(node.id)) return;
+      visited.add(node.id);
+      const { children, ...record } = node;
+      records.push({
+        ...record,
+        parent: parentId ?? record.parent,
+        expanded: record.expanded ?? true,
+        style: record.style ?? (node === root ? ROOT_NODE_STYLE : DEFAULT_NODE_STYLE)
+      });
+      if (Array.isArray(children)) {
+        children.filter(isObject).forEach(child => visit(child, node.id));
+      }
+    };
+
+    if (root) visit(root);
+    // 不在根节点子树中的节点原样保留，交由校验报告
+    nodes.forEach(node => visit(node));
+
+    const relationships = Array.isArray(data.relationships) ? data.relationships : [];
+    return {
+      ...data,
+      formatVersion: 2,
+      nodes: records,
+      relationships: relationships.map(relationship => isObject(relationship)
+        ? { ...relationship, style: relationship.style ?? { ...DEFAULT_CONNECTION_STYLE } }
+        : relationship)
+    };
+  }
+};
+
+// 逐级迁移到当前版本
+export const migrateMindMapFile = (data: JsonObject): JsonObject => {
+  const formatVersion = data.formatVersion === undefined ? 1 : data.formatVersion;
+  if (typeof formatVersion !== 'number' || !Number.isInteger(formatVersion) || formatVersion < 1) {
+    throw new MindMapFormatError([{ path: 'formatVersion', message: `无效的格式版本: ${JSON.stringify(formatVersion)}` }]);
+  }
+  let version = formatVersion;
+  if (version > CURRENT_FORMAT_VERSION) {
+    throw new Error(`该文件由更新版本的应用创建（格式版本${version}），请升级后再打开`);
+  }
+
+  let migrated = data;
+  while (version < CURRENT_FORMAT_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version = migrated.formatVersion as number;
+  }
+  return migrated;
+};
+
+// 校验评论或回复的公共字段
+const validateCommentFields = (comment: JsonObject, path: string, issues: ValidationIssue[]): void => {
+  (['id', 'author', 'text', 'createdAt'] as const).forEach(key => {
+    if (typeof comment[key] !== 'string') issues.push({ path: `${path}.${key}`, message: '必须是字符串' });
+  });
+};
+
+// 校验节点评论
+const validateComments = (comments: unknown, path: string, issues: ValidationIssue[]): void => {
+  if (!Array.isArray(comments)) {
+    issues.push({ path, message: '必须是数组' });
+    return;
+  }
+  comments.forEach((comment: unknown, index: number) => {
+    const commentPath = `${path}[${index}]`;
+    if (!isObject(comment)) {
+      issues.push({ path: commentPath, message: '必须是对象' });
+      return;
+    }
+    validateCommentFields(comment, commentPath, issues);
+    if (typeof comment.resolved !== 'boolean') {
+      issues.push({ path: `${commentPath}.resolved`, message: '必须是布尔值' });
+    }
+    if (!Array.isArray(comment.replies)) {
+      issues.push({ path: `${commentPath}.replies`, message: '必须是数组' });
+      return;
+    }
+    comment.replies.forEach((reply: unknown, replyIndex: number) => {
+      const replyPath = `${commentPath}.replies[${replyIndex}]`;
+      if (!isObject(reply)) {
+        issues.push({ path: replyPath, message: '必须是对象' });
+        return;
+      }
+      validateCommentFields(reply, replyPath, issues);
+    });
+  });
+};
+
+// 校验单个节点记录的字段
+const validateNodeFields = (node: JsonObject, path: string, issues: ValidationIssue[]): void => {
+  if (typeof node.content !== 'string') issues.push({ path: `${path}.content`, message: '必须是字符串' });
+  if (node.parent !== undefined && typeof node.parent !== 'string') {
+    issues.push({ path: `${path}.parent`, message: '必须是字符串' });
+  }
+  if (!isObject(node.style)) issues.push({ path: `${path}.style`, message: '必须是对象' });
+  if (typeof node.expanded !== 'boolean') issues.push({ path: `${path}.expanded`, message: '必须是布尔值' });
+  if (node.direction !== undefined && node.direction !== 'left' && node.direction !== 'right') {
+    issues.push({ path: `${path}.direction`, message: '必须是 left 或 right' });
+  }
+  if (node.note !== undefined && typeof node.note !== 'string') {
+    issues.push({ path: `${path}.note`, message: '必须是字符串' });
+  }
+  if (node.date !== undefined && (typeof node.date !== 'string' || !isValidNodeDate(node.date))) {
+    issues.push({ path: `${path}.date`, message: '必须是 YYYY-MM-DD 格式的日期' });
+  }
+  if (node.icon !== undefined && (!isObject(node.icon) || typeof node.icon.type !== 'string')) {
+    issues.push({ path: `${path}.icon`, message: '必须包含字符串类型的type' });
+  }
+  if (node.image !== undefined && (
+    !isObject(node.image) ||
+    typeof node.image.src !== 'string' ||
+    typeof node.image.width !== 'number' ||
+    typeof node.image.height !== 'number'
+  )) {
+    issues.push({ path: `${path}.image`, message: '必须包含src、width和height' });
+  }
+  if (node.meta !== undefined && !isObject(node.meta)) {
+    issues.push({ path: `${path}.meta`, message: '必须是对象' });
+  }
+  if (node.comments !== undefined) {
+    validateComments(node.comments, `${path}.comments`, issues);
+  }
+};
+
+// 校验节点之间的引用：唯一根节点、父节点存在且不存在循环
+// nodes为ID有效且不重复的节点，indexes记录每个节点在原数组中的下标
+const validateNodeTree = (nodes: Map<string, JsonObject>, indexes: Map<string, number>, issues: ValidationIssue[]): void => {
+  const roots = Array.from(nodes.values()).filter(node => node.parent === undefined);
+  if (roots.length === 0) {
+    issues.push({ path: 'nodes', message: '缺少根节点（没有parent的节点）' });
+  } else if (roots.length > 1) {
+    issues.push({ path: 'nodes', message: `存在${roots.length}个根节点: ${roots.map(root => root.id).join(', ')}` });
+  }
+
+  nodes.forEach((node, id) => {
+    if (typeof node.parent === 'string' && !nodes.has(node.parent)) {
+      issues.push({ path: `nodes[${indexes.get(id)}].parent`, message: `引用了不存在的父节点 "${node.parent}"` });
+    }
+  });
+
+  // 沿parent链检测循环，每个循环只报告一次
+  const state = new Map<string, 'visiting' | 'done'>();
+  nodes.forEach((_, startId) => {
+    const chain: string[] = [];
+    let currentId: string | undefined = startId;
+    while (currentId !== undefined && !state.has(currentId)) {
+      state.set(currentId, 'visiting');
+      chain.push(currentId);
+      const parent: unknown = nodes.get(currentId)!.parent;
+      currentId = typeof parent === 'string' && nodes.has(parent) ? parent : undefined;
+    }
+    if (currentId !== undefined && state.get(currentId) === 'visiting') {
+      const cycle = chain.slice(chain.indexOf(currentId));
+      issues.push({
+        path: `nodes[${indexes.get(currentId)}].parent`,
+        message: `父节点引用存在循环: ${[...cycle, currentId].join(' -> ')}`
+      });
+    }
+    chain.forEach(id => state.set(id, 'done'));
+  });
+};
+
+// 校验文件结构，返回所有发现的问题
+export const validateMindMapFile = (data: JsonObject): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  if (!Array.isArray(data.nodes)) {
+    return [{ path: 'nodes', message: '必须是数组' }];
+  }
+
+  const nodes = new Map<string, JsonObject>();
+  const indexes = new Map<string, number>();
+  data.nodes.forEach((node: unknown, index: number) => {
+    const path = `nodes[${index}]`;
+    if (!isObject(node)) {
+      issues.push({ path, message: '必须是对象' });
+      return;
+    }
+    if (typeof node.id !== 'string' || node.id === '') {
+      issues.push({ path: `${path}.id`, message: '必须是非空字符串' });
+      return;
+    }
+    if (nodes.has(node.id)) {
+      issues.push({ path: `${path}.id`, message: `与 nodes[${indexes.get(node.id)}] 的ID重复: "${node.id}"` });
+      return;
+    }
+    nodes.set(node.id, node);
+    indexes.set(node.id, index);
+    validateNodeFields(node, path, issues);
+  });
+  validateNodeTree(nodes, indexes, issues);
+
+  if (!Array.isArray(data.relationships)) {
+    issues.push({ path: 'relationships', message: '必须是数组' });
+  } else {
+    data.relationships.forEach((relationship: unknown, index: number) => {
+      const path = `relationships[${index}]`;
+      if (!isObject(relationship)) {
+        issues.push({ path, message: '必须是对象' });
+        return;
+      }
+      if (typeof relationship.id !== 'string') issues.push({ path: `${path}.id`, message: '必须是字符串' });
+      (['sourceId', 'targetId'] as const).forEach(key => {
+        const value = relationship[key];
+        if (typeof value !== 'string' || !nodes.has(value)) {
+          issues.push({ path: `${path}.${key}`, message: `引用了不存在的节点 ${JSON.stringify(value)}` });
+        }
+      });
+      if (relationship.label !== undefined && typeof relationship.label !== 'string') {
+        issues.push({ path: `${path}.label`, message: '必须是字符串' });
+      }
+      if (!isObject(relationship.style)) issues.push({ path: `${path}.style`, message: '必须是对象' });
+    });
+  }
+
+  if (data.background !== undefined) {
+    if (!isObject(data.background) || (data.background.type !== 'color' && data.background.type !== 'image')) {
+      issues.push({ path: 'background.type', message: '必须是 color 或 image' });
+    }
+  }
+
+  if (data.layout !== undefined && !isLayoutType(data.layout)) {
+    issues.push({ path: 'layout', message: `不支持的布局类型 ${JSON.stringify(data.layout)}` });
+  }
+
+  return issues;
+};
+
+// 由扁平记录重建节点树，层级和方向由树结构推导
+const buildTree = (records: MindMapFileNode[]): MindNode => {
+  const nodeMap = new Map<string, MindNode>(
+    records.map(record => [record.id, { ...record, children: [] }])
+  );
+  let root: MindNode | null = null;
+  records.forEach(record => {
+    const node = nodeMap.get(record.id)!;
+    if (record.parent === undefined) {
+      root = node;
+    } else {
+      nodeMap.get(record.parent)!.children.push(node);
+    }
+  });
+
+  walkTree(root!, (node, depth, parent) => {
+    node.level = depth;
+    if (parent && parent.level > 0) node.direction = parent.direction;
+    else if (parent) node.direction = node.direction || 'right';
+  });
+
+  return root!;
+};
+
+// 解析已反序列化的文件数据，旧版本数据先迁移到当前版本
+export const parseMindMapFile = (data: unknown): MindMapData => {
+  if (!isObject(data)) {
+    throw new MindMapFormatError([{ path: '', message: '文件内容必须是JSON对象' }]);
+  }
+
+  const migrated = migrateMindMapFile(data);
+  const issues = validateMindMapFile(migrated);
+  if (issues.length > 0) {
+    throw new MindMapFormatError(issues);
+  }
+
+  const file = migrated as unknown as MindMapFile;
+  return {
+    nodes: finalizeNodes(buildTree(file.nodes), file.layout),
+    relationships: file.relationships,
+    background: file.background,
+    layout: file.layout
+  };
+};
+
+// 解析JSON文件
+export const parseJSON = (text: string): MindMapData => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`JSON解析失败: ${(error as Error).message}`);
+  }
+  return parseMindMapFile(data);
+};
+
+// 生成当前版本的文件数据
+export const serializeMindMap = (data: MindMapData): MindMapFile => {
+  const root = getRootNode(data.nodes);
+  if (!root) {
+    throw new Error('思维导图缺少根节点');
+  }
+
+  const nodes: MindMapFileNode[] = [];
+  walkTree(root, (node, _depth, parent) => {
+    nodes.push({ ...omit(node, ['children', 'position']), parent: parent?.id });
+  });
+
+  const ids = new Set(nodes.map(node => node.id));
+  return {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    nodes,
+    relationships: data.relationships.filter(
+      relationship => ids.has(relationship.sourceId) && ids.has(relationship.targetId)
+    ),
+    background: data.background,
+    layout: data.layout
+  };
+};
+
+// 生成JSON文件内容
+export const createJSON = (data: MindMapData): string => {
+  return JSON.stringify(serializeMindMap(data), null, 2);
+};
@@ -0,0 +1,273 @@
+import { MindNode, NodeImage, MindMapData } from '@/types/mindmap';
+import { createNode } from '@/core/models/mindmap';
+import { balanceRootChildren } from '@/core/layouts/mindmap-layout';
+import { getIndentWidth } from '@/core/utils/outline';
+import {
+  appendChildNode,
+  finalizeNodes,
+  getRootNode,
+  DEFAULT_IMAGE_WIDTH,
+  DEFAULT_IMAGE_HEIGHT
+} from './utils';
+
+/**
+ * Markdown 大纲导入导出
+ * 标题和嵌套列表转换为节点层级，引用块和缩进段落转换为备注，图片转换为节点图片
+ */
+
+// 当前所在的标题
+interface HeadingContext {
+  level: number;
+  node: MindNode;
+}
+
+// 当前所在的列表项
+interface ListContext {
+  indent: number;
+  node: MindNode;
+}
+
+// 正在收集的备注块
+interface NoteBlock {
+  node: MindNode;
+  type: 'quote' | 'paragraph' | 'code';
+  lines: string[];
+}
+
+// 解析后的节点文本
+interface ItemText {
+  content: string;
+  image?: NodeImage;
+  href?: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})(?:\s+(.*))?$/;
+const LIST_ITEM_PATTERN = /^([-*+]|\d+[.)])(?:\s+(.*))?$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const FENCE_PATTERN = /^(`{3,}|~{3,})/;
+const RULE_PATTERN = /^([-*_])(\s*\1){2,}$/;
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/;
+const LINK_PATTERN = /^\[([^\]]*)\]\(([^)\s]+)\)$/;
+const LINE_BREAK_PATTERN = /<br\s*\/?>/gi;
+
+// 解析标题或列表项文本，提取图片和链接
+const parseItemText = (raw: string): ItemText => {
+  let text = raw.replace(LINE_BREAK_PATTERN, '\n');
+  const result: ItemText = { content: '' };
+
+  const imageMatch = text.match(IMAGE_PATTERN);
+  if (imageMatch) {
+    result.image = {
+      src: imageMatch[2],
+      width: DEFAULT_IMAGE_WIDTH,
+      height: DEFAULT_IMAGE_HEIGHT,
+      alt: imageMatch[1] || undefined
+    };
+    text = text.replace(imageMatch[0], '');
+  }
+
+  text = text.trim();
+  const linkMatch = text.match(LINK_PATTERN);
+  if (linkMatch) {
+    result.href = linkMatch[2];
+    text = linkMatch[1];
+  }
+
+  result.content = text || result.image?.alt || '';
+  return result;
+};
+
+// 把解析后的文本写入节点
+const applyItemText = (node: MindNode, item: ItemText): void => {
+  node.content = item.content;
+  if (item.image) node.image = item.image;
+  if (item.href) node.meta = { ...node.meta, href: item.href };
+};
+
+// 解析Markdown文本
+export const parseMarkdown = (text: string, defaultTitle: string = '中心主题'): MindMapData => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  // 只有一个最高级标题且位于所有标题之前时，将其作为根节点
+  const headingLevels: number[] = [];
+  let inFence = false;
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    if (FENCE_PATTERN.test(trimmed)) inFence = !inFence;
+    const match = !inFence && getIndentWidth(line) < 4 ? trimmed.match(HEADING_PATTERN) : null;
+    if (match) headingLevels.push(match[1].length);
+  });
+  const minLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : 1;
+  const rootFromHeading = headingLevels[0] === minLevel
+    && headingLevels.filter(level => level === minLevel).length === 1;
+
+  const root = createNode(defaultTitle, undefined, 0);
+  const headingStack: HeadingContext[] = [{ level: rootFromHeading ? minLevel : minLevel - 1, node: root }];
+  let listStack: ListContext[] = [];
+  let noteBlock: NoteBlock | null = null;
+  let fence: { marker: string; indent: number } | null = null;
+
+  // 结束当前备注块，写入节点备注
+  const flushNote = () => {
+    if (!noteBlock) return;
+    const note = noteBlock.lines.join('\n').replace(/^\n+|\n+$/g, '');
+    if (note) {
+      noteBlock.node.note = noteBlock.node.note ? `${noteBlock.node.note}\n\n${note}` : note;
+    }
+    noteBlock = null;
+  };
+
+  // 追加一行备注
+  const appendNote = (node: MindNode, type: NoteBlock['type'], line: string) => {
+    if (!noteBlock || noteBlock.node !== node || noteBlock.type !== type) {
+      flushNote();
+      noteBlock = { node, type, lines: [] };
+    }
+    noteBlock.lines.push(line);
+  };
+
+  // 查找缩进行所属的节点：缩进大于列表项时归属该列表项，否则归属当前标题
+  const findOwner = (indent: number): MindNode => {
+    for (let i = listStack.length - 1; i >= 0; i--) {
+      if (listStack[i].indent < indent) return listStack[i].node;
+    }
+    return headingStack[headingStack.length - 1].node;
+  };
+
+  lines.forEach(line => {
+    const indent = getIndentWidth(line);
+    const trimmed = line.trim();
+
+    // 代码块原样保留为备注
+    if (fence) {
+      if (trimmed.startsWith(fence.marker)) {
+        fence = null;
+        flushNote();
+      } else if (noteBlock) {
+        noteBlock.lines.push(line.slice(Math.min(fence.indent, indent)));
+      }
+      return;
+    }
+    const fenceMatch = trimmed.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      flushNote();
+      fence = { marker: fenceMatch[1], indent };
+      appendNote(findOwner(indent), 'code', '');
+      return;
+    }
+
+    if (!trimmed) {
+      flushNote();
+      return;
+    }
+
+    const headingMatch = indent < 4 ? trimmed.match(HEADING_PATTERN) : null;
+    if (headingMatch) {
+      flushNote();
+      listStack = [];
+      const level = headingMatch[1].length;
+      const item = parseItemText((headingMatch[2] || '').replace(/\s+#+\s*$/, ''));
+
+      if (rootFromHeading && level === minLevel) {
+        applyItemText(root, item);
+        return;
+      }
+
+      while (headingStack.length > 1 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      const node = appendChildNode(headingStack[headingStack.length - 1].node, '');
+      applyItemText(node, item);
+      headingStack.push({ level, node });
+      return;
+    }
+
+    if (RULE_PATTERN.test(trimmed)) {
+      flushNote();
+      return;
+    }
+
+    const listMatch = trimmed.match(LIST_ITEM_PATTERN);
+    if (listMatch) {
+      flushNote();
+      while (listStack.length > 0 && listStack[listStack.length - 1].indent >= indent) {
+        listStack.pop();
+      }
+      const parent = listStack.length > 0
+        ? listStack[listStack.length - 1].node
+        : headingStack[headingStack.length - 1].node;
+      const node = appendChildNode(parent, '');
+      applyItemText(node, parseItemText(listMatch[2] || ''));
+      listStack.push({ indent, node });
+      return;
+    }
+
+    const owner = findOwner(indent);
+    const quoteMatch = trimmed.match(QUOTE_PATTERN);
+    if (quoteMatch) {
+      appendNote(owner, 'quote', quoteMatch[1].replace(LINE_BREAK_PATTERN, '\n'));
+      return;
+    }
+
+    // 单独一行的图片作为所属节点的图片
+    const imageMatch = trimmed.match(IMAGE_PATTERN);
+    if (imageMatch && imageMatch[0] === trimmed && !owner.image) {
+      flushNote();
+      owner.image = parseItemText(trimmed).image;
+      return;
+    }
+
+    appendNote(owner, 'paragraph', trimmed);
+  });
+  flushNote();
+
+  balanceRootChildren(root);
+
+  return { nodes: finalizeNodes(root), relationships: [] };
+};
+
+// 生成节点的单行文本
+const formatItemText = (node: MindNode): string => {
+  let text = node.content.replace(/\r?\n/g, '<br>');
+  if (typeof node.meta?.href === 'string') {
+    text = `[${text}](${node.meta.href})`;
+  }
+  if (node.image?.src) {
+    text = `${text} ![${node.image.alt || ''}](${node.image.src})`.trim();
+  }
+  return text;
+};
+
+// 生成引用块形式的备注
+const formatNote = (note: string, indent: string): string[] => {
+  return note.split(/\r?\n/).map(line => (line ? `${indent}> ${line}` : `${indent}>`));
+};
+
+// 生成Markdown大纲：根节点为一级标题，一级子节点为二级标题，更深层级为嵌套列表
+export const createMarkdown = (data: MindMapData): string => {
+  const root = getRootNode(data.nodes);
+  if (!root) {
+    throw new Error('思维导图缺少根节点');
+  }
+
+  const lines: string[] = [`# ${formatItemText(root)}`];
+  if (root.note) lines.push('', ...formatNote(root.note, ''));
+
+  const writeListItem = (node: MindNode, depth: number) => {
+    const indent = '  '.repeat(depth);
+    lines.push(`${indent}- ${formatItemText(node)}`);
+    if (node.note) lines.push(...formatNote(node.note, `${indent}  `));
+    node.children.forEach(child => writeListItem(child, depth + 1));
+  };
+
+  root.children.forEach(child => {
+    lines.push('', `## ${formatItemText(child)}`);
+    if (child.note) lines.push('', ...formatNote(child.note, ''));
+    if (child.children.length > 0) {
+      lines.push('');
+      child.children.forEach(grandchild => writeListItem(grandchild, 0));
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+};
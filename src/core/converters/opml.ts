@@ -0,0 +1,164 @@
+import { MindNode, MindMapData } from '@/types/mindmap';
+import { createNode } from '@/core/models/mindmap';
+import { balanceRootChildren } from '@/core/layouts/mindmap-layout';
+import {
+  appendChildNode,
+  finalizeNodes,
+  getRootNode,
+  walkTree,
+  escapeXml,
+  escapeAttribute,
+  parseXml,
+  getChildElement,
+  getChildElements
+} from './utils';
+
+/**
+ * OPML 2.0 大纲导入导出
+ * outline的text对应节点内容，_note对应备注，折叠状态通过head中的expansionState保存
+ */
+
+// 按当前展开状态列出可见的大纲行（OPML的flatdown顺序）
+const getVisibleLines = (summits: MindNode[]): MindNode[] => {
+  const lines: MindNode[] = [];
+  const visit = (node: MindNode) => {
+    lines.push(node);
+    if (node.expanded) node.children.forEach(visit);
+  };
+  summits.forEach(visit);
+  return lines;
+};
+
+// 解析expansionState：依次展开当前可见列表中第X行的节点
+const applyExpansionState = (summits: MindNode[], expansionState: string): void => {
+  summits.forEach(summit => walkTree(summit, node => {
+    if (node.children.length > 0) node.expanded = false;
+  }));
+
+  expansionState.split(',').forEach(item => {
+    const index = parseInt(item.trim(), 10);
+    if (isNaN(index)) return;
+    const node = getVisibleLines(summits)[index];
+    if (node) node.expanded = true;
+  });
+};
+
+// 生成expansionState：按文档顺序记录每个已展开节点在可见列表中的行号
+const createExpansionState = (summits: MindNode[]): string => {
+  const indexes: number[] = [];
+  let line = 0;
+  const visit = (node: MindNode) => {
+    const index = line++;
+    if (node.expanded && node.children.length > 0) {
+      indexes.push(index);
+      node.children.forEach(visit);
+    }
+  };
+  summits.forEach(visit);
+  return indexes.join(',');
+};
+
+// 把outline元素的属性写入MindNode
+const applyOutline = (node: MindNode, element: Element): void => {
+  const note = element.getAttribute('_note');
+  if (note) node.note = note;
+
+  // type="link"的outline通过url属性指向外部链接
+  const url = element.getAttribute('url');
+  if (url && element.getAttribute('type') === 'link') {
+    node.meta = { ...node.meta, href: url };
+  }
+};
+
+// 递归转换子outline
+const convertOutlines = (parent: MindNode, element: Element): void => {
+  getChildElements(element, 'outline').forEach(outline => {
+    const child = appendChildNode(parent, outline.getAttribute('text') || '');
+    applyOutline(child, outline);
+    convertOutlines(child, outline);
+  });
+};
+
+// 解析OPML文件，只有一个顶级outline时将其作为根节点，否则以标题作为根节点
+export const parseOPML = (text: string, defaultTitle: string = '中心主题'): MindMapData => {
+  const doc = parseXml(text);
+  const opml = doc.documentElement;
+  if (!opml || opml.localName !== 'opml') {
+    throw new Error('无效的OPML文件: 缺少opml元素');
+  }
+
+  const body = getChildElement(opml, 'body');
+  if (!body) {
+    throw new Error('无效的OPML文件: 缺少body元素');
+  }
+
+  const head = getChildElement(opml, 'head');
+  const title = head ? getChildElement(head, 'title')?.textContent?.trim() : undefined;
+  const outlines = getChildElements(body, 'outline');
+
+  let root: MindNode;
+  let summits: MindNode[];
+  if (outlines.length === 1) {
+    root = createNode(outlines[0].getAttribute('text') || title || defaultTitle, undefined, 0);
+    applyOutline(root, outlines[0]);
+    convertOutlines(root, outlines[0]);
+    summits = [root];
+  } else {
+    root = createNode(title || defaultTitle, undefined, 0);
+    convertOutlines(root, body);
+    summits = root.children;
+  }
+
+  // 未提供expansionState时保持全部展开
+  const expansionState = head ? getChildElement(head, 'expansionState')?.textContent : undefined;
+  if (expansionState?.trim()) {
+    applyExpansionState(summits, expansionState);
+    // 多个顶级outline时根节点是额外创建的，始终展开
+    root.expanded = true;
+  }
+
+  balanceRootChildren(root);
+
+  return { nodes: finalizeNodes(root), relationships: [] };
+};
+
+// 生成OPML文件内容，根节点作为唯一的顶级outline
+export const createOPML = (data: MindMapData): string => {
+  const root = getRootNode(data.nodes);
+  if (!root) {
+    throw new Error('思维导图缺少根节点');
+  }
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(root.content)}</title>`,
+    `    <dateModified>${new Date().toUTCString()}</dateModified>`,
+    `    <expansionState>${createExpansionState([root])}</expansionState>`,
+    '  </head>',
+    '  <body>'
+  ];
+
+  const writeOutline = (node: MindNode, depth: number) => {
+    const indent = '  '.repeat(depth + 2);
+    const attributes = [`text="${escapeAttribute(node.content)}"`];
+    if (node.note) attributes.push(`_note="${escapeAttribute(node.note)}"`);
+    if (typeof node.meta?.href === 'string') {
+      attributes.push('type="link"', `url="${escapeAttribute(node.meta.href)}"`);
+    }
+
+    if (node.children.length === 0) {
+      lines.push(`${indent}<outline ${attributes.join(' ')}/>`);
+      return;
+    }
+    lines.push(`${indent}<outline ${attributes.join(' ')}>`);
+    node.children.forEach(child => writeOutline(child, depth + 1));
+    lines.push(`${indent}</outline>`);
+  };
+
+  writeOutline(root, 0);
+  lines.push('  </body>', '</opml>');
+
+  return lines.join('\n');
+};
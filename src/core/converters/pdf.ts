@@ -0,0 +1,327 @@
+import { jsPDF } from 'jspdf';
+import 'svg2pdf.js';
+import { MindNode, MindMapData } from '@/types/mindmap';
+import { createSVG, inlineSVGImages } from './svg';
+import { getRootNode } from './utils';
+
+/**
+ * PDF 导出
+ * 基于导出的SVG矢量绘制，支持缩放到单页或按原始比例平铺到多页，并生成与节点层级一致的书签
+ */
+
+// PDF导出选项
+export interface PDFExportOptions {
+  layout: 'fit' | 'tile';       // 适合单页或分页平铺
+  pageSize: 'a4' | 'a3';
+  orientation: 'auto' | 'portrait' | 'landscape';
+  scale: number;                // 平铺时的打印比例（1为原始尺寸）
+  overlap: number;              // 平铺时相邻页面的重叠宽度（毫米）
+}
+
+export const DEFAULT_PDF_EXPORT_OPTIONS: PDFExportOptions = {
+  layout: 'fit',
+  pageSize: 'a4',
+  orientation: 'auto',
+  scale: 1,
+  overlap: 10
+};
+
+// 纸张尺寸（毫米，纵向）
+const PAGE_SIZES: Record<PDFExportOptions['pageSize'], [number, number]> = {
+  a4: [210, 297],
+  a3: [297, 420]
+};
+
+// 页边距（毫米）
+const PAGE_MARGIN = 10;
+
+// 像素转毫米（按96dpi计算）
+const PX_TO_MM = 25.4 / 96;
+
+// 非Latin字符的文字栅格化倍数
+const TEXT_RASTER_SCALE = 4;
+
+// 平铺页面
+interface PageTile {
+  row: number;
+  column: number;
+  offsetX: number;  // 该页左上角在导图中的位置（毫米）
+  offsetY: number;
+}
+
+// 页面布局计算结果
+interface PageLayout {
+  orientation: 'portrait' | 'landscape';
+  pageWidth: number;
+  pageHeight: number;
+  mapWidth: number;   // 导图绘制尺寸（毫米）
+  mapHeight: number;
+  rows: number;
+  columns: number;
+  stepX: number;      // 相邻页面之间的偏移（毫米）
+  stepY: number;
+}
+
+// 将字符串编码为PDF文本字符串（UTF-16BE，带BOM），用于书签标题
+const toPDFTextString = (text: string): string => {
+  let result = '\u00fe\u00ff';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    result += String.fromCharCode(code >> 8, code & 0xff);
+  }
+  return result;
+};
+
+// 获取纸张尺寸
+const getPageSize = (options: PDFExportOptions, orientation: 'portrait' | 'landscape'): [number, number] => {
+  const [width, height] = PAGE_SIZES[options.pageSize];
+  return orientation === 'portrait' ? [width, height] : [height, width];
+};
+
+// 计算指定方向的页面布局
+const calculateLayoutForOrientation = (
+  options: PDFExportOptions,
+  orientation: 'portrait' | 'landscape',
+  svgWidth: number,
+  svgHeight: number
+): PageLayout => {
+  const [pageWidth, pageHeight] = getPageSize(options, orientation);
+  const printableWidth = pageWidth - PAGE_MARGIN * 2;
+  const printableHeight = pageHeight - PAGE_MARGIN * 2;
+
+  if (options.layout === 'fit') {
+    const scale = Math.min(printableWidth / (svgWidth * PX_TO_MM), printableHeight / (svgHeight * PX_TO_MM));
+    return {
+      orientation,
+      pageWidth,
+      pageHeight,
+      mapWidth: svgWidth * PX_TO_MM * scale,
+      mapHeight: svgHeight * PX_TO_MM * scale,
+      rows: 1,
+      columns: 1,
+      stepX: printableWidth,
+      stepY: printableHeight
+    };
+  }
+
+  const mapWidth = svgWidth * PX_TO_MM * options.scale;
+  const mapHeight = svgHeight * PX_TO_MM * options.scale;
+  const overlap = Math.min(Math.max(options.overlap, 0), Math.min(printableWidth, printableHeight) / 2);
+  const stepX = printableWidth - overlap;
+  const stepY = printableHeight - overlap;
+
+  return {
+    orientation,
+    pageWidth,
+    pageHeight,
+    mapWidth,
+    mapHeight,
+    rows: Math.max(1, Math.ceil((mapHeight - overlap) / stepY)),
+    columns: Math.max(1, Math.ceil((mapWidth - overlap) / stepX)),
+    stepX,
+    stepY
+  };
+};
+
+// 计算页面布局，自动方向时单页选择缩放更大的方向，平铺选择页数更少的方向
+const calculatePageLayout = (options: PDFExportOptions, svgWidth: number, svgHeight: number): PageLayout => {
+  if (options.orientation !== 'auto') {
+    return calculateLayoutForOrientation(options, options.orientation, svgWidth, svgHeight);
+  }
+
+  const portrait = calculateLayoutForOrientation(options, 'portrait', svgWidth, svgHeight);
+  const landscape = calculateLayoutForOrientation(options, 'landscape', svgWidth, svgHeight);
+  if (options.layout === 'fit') {
+    return landscape.mapWidth > portrait.mapWidth ? landscape : portrait;
+  }
+  return landscape.rows * landscape.columns < portrait.rows * portrait.columns ? landscape : portrait;
+};
+
+// 将包含非Latin字符的文字替换为高分辨率图片（PDF标准字体不包含中文等字形）
+const rasterizeNonLatinText = (svgElement: SVGSVGElement): void => {
+  const fontFamily = svgElement.getAttribute('font-family') || 'sans-serif';
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  Array.from(svgElement.querySelectorAll('text')).forEach(textElement => {
+    if (!/[^\u0020-\u00ff]/.test(textElement.textContent || '')) return;
+
+    const fontSize = parseFloat(textElement.getAttribute('font-size') || '16');
+    const fontWeight = textElement.getAttribute('font-weight') || 'normal';
+    const color = textElement.getAttribute('fill') || '#333333';
+    const anchor = textElement.getAttribute('text-anchor') || 'start';
+    const centered = textElement.getAttribute('dominant-baseline') === 'middle';
+    const font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+    const lineHeight = fontSize * 1.4;
+
+    const tspans = Array.from(textElement.querySelectorAll('tspan'));
+    const lines = tspans.length > 0 ? tspans : [textElement];
+
+    lines.forEach(line => {
+      const content = line.textContent || '';
+      if (!content) return;
+      const x = parseFloat(line.getAttribute('x') || textElement.getAttribute('x') || '0');
+      const y = parseFloat(line.getAttribute('y') || textElement.getAttribute('y') || '0');
+
+      context.font = font;
+      const width = Math.ceil(context.measureText(content).width) + 2;
+      canvas.width = Math.ceil(width * TEXT_RASTER_SCALE);
+      canvas.height = Math.ceil(lineHeight * TEXT_RASTER_SCALE);
+      context.setTransform(TEXT_RASTER_SCALE, 0, 0, TEXT_RASTER_SCALE, 0, 0);
+      context.font = font;
+      context.fillStyle = color;
+      context.textBaseline = 'middle';
+      context.fillText(content, 1, lineHeight / 2);
+
+      const left = anchor === 'middle' ? x - width / 2 : anchor === 'end' ? x - width : x;
+      const top = centered ? y - lineHeight / 2 : y - fontSize * 0.35 - lineHeight / 2;
+
+      const image = document.createElementNS('http://www.w3.org/2000/svg', 'image');
+      image.setAttribute('x', String(left));
+      image.setAttribute('y', String(top));
+      image.setAttribute('width', String(width));
+      image.setAttribute('height', String(lineHeight));
+      image.setAttributeNS('http://www.w3.org/1999/xlink', 'xlink:href', canvas.toDataURL('image/png'));
+      textElement.parentNode?.insertBefore(image, textElement);
+    });
+
+    textElement.remove();
+  });
+};
+
+// 绘制平铺页面的重叠标记、裁切标记和页码
+const drawTileMarks = (doc: jsPDF, layout: PageLayout, tile: PageTile, overlap: number, pageNumber: number): void => {
+  const printableWidth = layout.pageWidth - PAGE_MARGIN * 2;
+  const printableHeight = layout.pageHeight - PAGE_MARGIN * 2;
+  const left = PAGE_MARGIN;
+  const top = PAGE_MARGIN;
+  const right = PAGE_MARGIN + printableWidth;
+  const bottom = PAGE_MARGIN + printableHeight;
+
+  doc.setDrawColor(160, 160, 160);
+  doc.setLineWidth(0.2);
+
+  // 与相邻页面重叠的区域用虚线标出
+  doc.setLineDashPattern([2, 2], 0);
+  if (tile.column > 0) doc.line(left + overlap, top, left + overlap, bottom);
+  if (tile.column < layout.columns - 1) doc.line(right - overlap, top, right - overlap, bottom);
+  if (tile.row > 0) doc.line(left, top + overlap, right, top + overlap);
+  if (tile.row < layout.rows - 1) doc.line(left, bottom - overlap, right, bottom - overlap);
+  doc.setLineDashPattern([], 0);
+
+  // 四角裁切标记
+  const markLength = 5;
+  [[left, top], [right, top], [left, bottom], [right, bottom]].forEach(([x, y]) => {
+    const dx = x === left ? -1 : 1;
+    const dy = y === top ? -1 : 1;
+    doc.line(x + dx, y, x + dx * markLength, y);
+    doc.line(x, y + dy, x, y + dy * markLength);
+  });
+
+  // 页码：行-列 (序号/总数)
+  doc.setFontSize(8);
+  doc.setTextColor(140, 140, 140);
+  doc.text(
+    `${tile.row + 1}-${tile.column + 1}  (${pageNumber}/${layout.rows * layout.columns})`,
+    layout.pageWidth / 2,
+    layout.pageHeight - PAGE_MARGIN / 2,
+    { align: 'center', baseline: 'middle' }
+  );
+};
+
+// 添加书签，层级与节点层级一致，指向节点所在的页面
+const addOutline = (
+  doc: jsPDF,
+  root: MindNode,
+  getPageNumber: (node: MindNode) => number
+): void => {
+  const addItem = (node: MindNode, parent: unknown) => {
+    const item = doc.outline.add(parent, toPDFTextString(node.content || ' '), { pageNumber: getPageNumber(node) });
+    if (node.expanded) {
+      node.children.forEach(child => addItem(child, item));
+    }
+  };
+  addItem(root, null);
+};
+
+// 生成PDF文件
+export const createPDF = async (data: MindMapData, options: PDFExportOptions = DEFAULT_PDF_EXPORT_OPTIONS): Promise<Blob> => {
+  const root = getRootNode(data.nodes);
+  if (!root) {
+    throw new Error('思维导图缺少根节点');
+  }
+
+  // 图片先内嵌为data URL，无法读取的图片会被省略，不影响其余内容的导出
+  const { svg } = await inlineSVGImages(createSVG(data));
+  const svgDoc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const svgElement = svgDoc.documentElement as unknown as SVGSVGElement;
+  const svgWidth = parseFloat(svgElement.getAttribute('width') || '0');
+  const svgHeight = parseFloat(svgElement.getAttribute('height') || '0');
+  const [viewBoxX, viewBoxY] = (svgElement.getAttribute('viewBox') || '0 0').split(/\s+/).map(Number);
+
+  const layout = calculatePageLayout(options, svgWidth, svgHeight);
+  const printableWidth = layout.pageWidth - PAGE_MARGIN * 2;
+  const printableHeight = layout.pageHeight - PAGE_MARGIN * 2;
+  const overlap = layout.columns * layout.rows > 1 ? printableWidth - layout.stepX : 0;
+
+  // 单页时居中显示
+  const centerOffsetX = options.layout === 'fit' ? (printableWidth - layout.mapWidth) / 2 : 0;
+  const centerOffsetY = options.layout === 'fit' ? (printableHeight - layout.mapHeight) / 2 : 0;
+
+  const doc = new jsPDF({ orientation: layout.orientation, unit: 'mm', format: options.pageSize });
+  doc.setDisplayMode('fullwidth', 'continuous', 'UseOutlines');
+
+  // svg2pdf需要元素位于文档中才能正确计算样式
+  const container = document.createElement('div');
+  container.style.position = 'absolute';
+  container.style.left = '-99999px';
+  container.style.visibility = 'hidden';
+  container.appendChild(document.importNode(svgElement, true));
+  document.body.appendChild(container);
+  const renderElement = container.firstElementChild as SVGSVGElement;
+  rasterizeNonLatinText(renderElement);
+
+  try {
+    for (let row = 0; row < layout.rows; row++) {
+      for (let column = 0; column < layout.columns; column++) {
+        const pageNumber = row * layout.columns + column + 1;
+        if (pageNumber > 1) doc.addPage(options.pageSize, layout.orientation);
+
+        const tile: PageTile = { row, column, offsetX: column * layout.stepX, offsetY: row * layout.stepY };
+
+        // 只绘制当前页面可打印区域内的部分
+        doc.saveGraphicsState();
+        doc.rect(PAGE_MARGIN, PAGE_MARGIN, printableWidth, printableHeight, null);
+        doc.clip();
+        doc.discardPath();
+        await doc.svg(renderElement, {
+          x: PAGE_MARGIN + centerOffsetX - tile.offsetX,
+          y: PAGE_MARGIN + centerOffsetY - tile.offsetY,
+          width: layout.mapWidth,
+          height: layout.mapHeight
+        });
+        doc.restoreGraphicsState();
+
+        if (options.layout === 'tile' && layout.rows * layout.columns > 1) {
+          drawTileMarks(doc, layout, tile, overlap, pageNumber);
+        }
+      }
+    }
+  } finally {
+    document.body.removeChild(container);
+  }
+
+  // 节点中心所在的页面
+  const mmPerPixel = layout.mapWidth / svgWidth;
+  const getPageNumber = (node: MindNode): number => {
+    const x = ((node.position?.x || 0) - viewBoxX) * mmPerPixel;
+    const y = ((node.position?.y || 0) - viewBoxY) * mmPerPixel;
+    const column = Math.min(layout.columns - 1, Math.max(0, Math.floor(x / layout.stepX)));
+    const row = Math.min(layout.rows - 1, Math.max(0, Math.floor(y / layout.stepY)));
+    return row * layout.columns + column + 1;
+  };
+  addOutline(doc, root, getPageNumber);
+
+  return doc.output('blob');
+};
@@ -0,0 +1,371 @@
+import { renderIconDefinitionToSVGElement } from '@ant-design/icons-svg/es/helpers';
+import MessageOutlined from '@ant-design/icons-svg/es/asn/MessageOutlined';
+import FileImageOutlined from '@ant-design/icons-svg/es/asn/FileImageOutlined';
+import TagOutlined from '@ant-design/icons-svg/es/asn/TagOutlined';
+import LinkOutlined from '@ant-design/icons-svg/es/asn/LinkOutlined';
+import { IconDefinition } from '@ant-design/icons-svg/es/types';
+import { MindNode, Relationship, BackgroundConfig, MindMapData } from '@/types/mindmap';
+import { DEFAULT_CONNECTION_STYLE } from '@/core/models/mindmap';
+import {
+  generateRelationshipPath,
+  getRelationshipControlPoint
+} from '@/core/utils/connection-path';
+import { getLayoutStrategy, LayoutGuides } from '@/core/layouts/mindmap-layout';
+import { getRootNode, escapeXml, unescapeXml } from './utils';
+
+/**
+ * SVG 矢量图导出
+ * 直接根据布局后的节点数据生成独立的SVG，与画布当前的视口和缩放无关
+ */
+
+// SVG导出选项
+export interface SVGExportOptions {
+  transparent?: boolean;   // 不绘制背景
+  rootId?: string;         // 只导出以该节点为根的分支
+  region?: { x: number; y: number; width: number; height: number }; // 只导出指定区域（导图坐标）
+}
+
+// 导出区域的边界
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// 导出图片的留白
+const EXPORT_PADDING = 40;
+
+// 导出使用的字体
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', 'PingFang SC', 'Microsoft YaHei', sans-serif";
+
+// 节点图标类型对应的Ant Design图标
+const NODE_ICONS: Record<string, IconDefinition> = {
+  message: MessageOutlined,
+  file: FileImageOutlined,
+  tag: TagOutlined,
+  link: LinkOutlined
+};
+
+// 关系标签尺寸
+const LABEL_FONT_SIZE = 12;
+const LABEL_HEIGHT = 22;
+
+// 获取节点尺寸
+const getNodeSize = (node: MindNode) => ({
+  width: node.style.width || 120,
+  height: node.style.height || 40
+});
+
+// 计算节点图片的显示尺寸（宽度不超过节点宽度）
+const getImageSize = (node: MindNode) => {
+  if (!node.image) return null;
+  const { width } = getNodeSize(node);
+  const scale = Math.min(1, width / (node.image.width || width));
+  return {
+    width: (node.image.width || width) * scale,
+    height: (node.image.height || width) * scale
+  };
+};
+
+// 估算文字宽度（中文等宽字符按整字宽，其余按半字宽）
+const estimateTextWidth = (text: string, fontSize: number): number => {
+  return Array.from(text).reduce((width, char) => width + (char.charCodeAt(0) > 255 ? fontSize : fontSize * 0.6), 0);
+};
+
+// 获取可见节点（折叠节点的子孙不导出）
+const getVisibleNodes = (root: MindNode): MindNode[] => {
+  const result: MindNode[] = [];
+  const traverse = (node: MindNode) => {
+    result.push(node);
+    if (node.expanded) {
+      node.children.forEach(traverse);
+    }
+  };
+  traverse(root);
+  return result;
+};
+
+// 扩展边界
+const extendBounds = (bounds: Bounds, x1: number, y1: number, x2: number, y2: number) => {
+  bounds.minX = Math.min(bounds.minX, x1);
+  bounds.minY = Math.min(bounds.minY, y1);
+  bounds.maxX = Math.max(bounds.maxX, x2);
+  bounds.maxY = Math.max(bounds.maxY, y2);
+};
+
+// 渲染背景
+const renderBackground = (background: BackgroundConfig | undefined, bounds: Bounds): string => {
+  const x = bounds.minX;
+  const y = bounds.minY;
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const opacity = background?.opacity !== undefined ? background.opacity : 1;
+
+  if (background?.type === 'image' && background.imageUrl) {
+    // cover对应裁剪填充，contain对应完整显示
+    const aspectRatio = background.size === 'contain' ? 'xMidYMid meet' : 'xMidYMid slice';
+    return `<image x="${x}" y="${y}" width="${width}" height="${height}" opacity="${opacity}" preserveAspectRatio="${aspectRatio}" xlink:href="${escapeXml(background.imageUrl)}"/>`;
+  }
+
+  const color = background?.type === 'color' && background.color ? background.color : '#f5f5f5';
+  return `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${escapeXml(color)}" fill-opacity="${opacity}"/>`;
+};
+
+// 渲染多行文字
+const renderText = (content: string, fontSize: number, fontWeight: string | number, color: string): string => {
+  const lines = content.split(/\r?\n/);
+  const lineHeight = fontSize * 1.2;
+  const startY = -((lines.length - 1) * lineHeight) / 2;
+  const tspans = lines
+    .map((line, index) => `<tspan x="0" y="${startY + index * lineHeight}">${escapeXml(line)}</tspan>`)
+    .join('');
+  return `<text text-anchor="middle" dominant-baseline="middle" font-size="${fontSize}" font-weight="${fontWeight}" fill="${escapeXml(color)}">${tspans}</text>`;
+};
+
+// 渲染节点
+const renderNode = (node: MindNode): string => {
+  const x = node.position?.x || 0;
+  const y = node.position?.y || 0;
+  const { width, height } = getNodeSize(node);
+  const parts: string[] = [];
+
+  // 节点背景（与画布一致，引用节点使用紫色边框和半透明背景）
+  const backgroundColor = node.style.backgroundColor || '#ffffff';
+  const fillOpacity = node.isReference ? 0.8 : 1;
+  const borderColor = node.isReference ? '#722ed1' : (node.style.borderColor || '#cccccc');
+  const borderWidth = node.style.borderWidth || 1;
+  const dashArray = node.style.borderStyle === 'dashed' ? '5,5' : node.style.borderStyle === 'dotted' ? '2,2' : 'none';
+  parts.push(`<rect x="${-width / 2}" y="${-height / 2}" width="${width}" height="${height}" rx="5" ry="5" fill="${escapeXml(backgroundColor)}" fill-opacity="${fillOpacity}" stroke="${escapeXml(borderColor)}" stroke-width="${borderWidth + 1}" stroke-dasharray="${dashArray}"/>`);
+
+  // 节点图片显示在节点上方
+  const imageSize = getImageSize(node);
+  if (node.image && imageSize) {
+    parts.push(`<image x="${-imageSize.width / 2}" y="${-height / 2 - imageSize.height - 4}" width="${imageSize.width}" height="${imageSize.height}" preserveAspectRatio="xMidYMid meet" xlink:href="${escapeXml(node.image.src)}"/>`);
+  }
+
+  // 节点图标显示在节点左侧
+  const iconDefinition = node.icon ? NODE_ICONS[node.icon.type] : undefined;
+  if (node.icon && iconDefinition) {
+    const size = Math.min(node.icon.size || 16, height - 8);
+    parts.push(renderIconDefinitionToSVGElement(iconDefinition, {
+      extraSVGAttrs: {
+        x: String(-width / 2 + 6),
+        y: String(-size / 2),
+        width: String(size),
+        height: String(size),
+        fill: node.icon.color || '#1890ff'
+      }
+    }));
+  }
+
+  parts.push(renderText(
+    node.content,
+    node.style.fontSize || 14,
+    node.style.fontWeight || 'normal',
+    node.style.fontColor || '#333333'
+  ));
+
+  // 引用指示器
+  if (node.isReference) {
+    parts.push(`<text x="${-width / 2 + 12}" y="${-height / 2 + 12}" font-size="12" fill="#722ed1">↗</text>`);
+  }
+
+  return `<g transform="translate(${x}, ${y})">${parts.join('')}</g>`;
+};
+
+// 渲染关系连线及其标签
+const renderRelationship = (relationship: Relationship, sourceNode: MindNode, targetNode: MindNode): string => {
+  const { style } = relationship;
+  const sourceX = sourceNode.position?.x || 0;
+  const sourceY = sourceNode.position?.y || 0;
+  const targetX = targetNode.position?.x || 0;
+  const targetY = targetNode.position?.y || 0;
+  const control = getRelationshipControlPoint(sourceNode, targetNode);
+  const pathData = generateRelationshipPath(sourceX, sourceY, targetX, targetY, control.x, control.y, style.lineStyle);
+
+  const color = style.lineColor || '#999';
+  const dashArray = style.lineType === 'dashed' ? '5,5' : style.lineType === 'dotted' ? '2,2' : 'none';
+  const markerId = `arrowhead-${relationship.id}`;
+  const parts = [
+    `<defs><marker id="${markerId}" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto" fill="${escapeXml(color)}"><polygon points="0 0, 10 3.5, 0 7"/></marker></defs>`,
+    `<path d="${pathData.replace(/\s+/g, ' ').trim()}" fill="none" stroke="${escapeXml(color)}" stroke-width="${style.lineWidth || 1.5}" stroke-dasharray="${dashArray}" marker-end="url(#${markerId})"/>`
+  ];
+
+  if (relationship.label) {
+    const labelWidth = estimateTextWidth(relationship.label, LABEL_FONT_SIZE) + 12;
+    parts.push(
+      `<rect x="${control.x - labelWidth / 2}" y="${control.y - LABEL_HEIGHT / 2}" width="${labelWidth}" height="${LABEL_HEIGHT}" rx="4" ry="4" fill="#ffffff" stroke="#d9d9d9"/>`,
+      `<text x="${control.x}" y="${control.y}" text-anchor="middle" dominant-baseline="middle" font-size="${LABEL_FONT_SIZE}" fill="#333333">${escapeXml(relationship.label)}</text>`
+    );
+  }
+
+  return `<g>${parts.join('')}</g>`;
+};
+
+// 渲染布局的辅助图形（如时间轴的坐标轴和刻度）
+const renderGuides = (guides: LayoutGuides): string => {
+  if (guides.lines.length === 0 && guides.labels.length === 0) return '';
+  const lines = guides.lines.map(line => `<line x1="${line.x1}" y1="${line.y1}" x2="${line.x2}" y2="${line.y2}"/>`);
+  const labels = guides.labels.map(label =>
+    `<text x="${label.x}" y="${label.y}" text-anchor="middle" dominant-baseline="middle" stroke="none">${escapeXml(label.text)}</text>`
+  );
+  return `<g stroke="#8c8c8c" stroke-width="2" fill="#8c8c8c" font-size="${LABEL_FONT_SIZE}">${lines.join('')}${labels.join('')}</g>`;
+};
+
+// 计算导出区域：所有可见节点、节点图片、关系标签及布局辅助图形
+const calculateBounds = (
+  nodes: MindNode[],
+  relationships: Relationship[],
+  nodeMap: Map<string, MindNode>,
+  guides: LayoutGuides
+): Bounds => {
+  const bounds: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+
+  nodes.forEach(node => {
+    const x = node.position?.x || 0;
+    const y = node.position?.y || 0;
+    const { width, height } = getNodeSize(node);
+    const textWidth = Math.max(...node.content.split(/\r?\n/).map(line => estimateTextWidth(line, node.style.fontSize || 14)));
+    const halfWidth = Math.max(width, textWidth) / 2;
+    extendBounds(bounds, x - halfWidth, y - height / 2, x + halfWidth, y + height / 2);
+
+    const imageSize = getImageSize(node);
+    if (imageSize) {
+      extendBounds(bounds, x - imageSize.width / 2, y - height / 2 - imageSize.height - 4, x + imageSize.width / 2, y);
+    }
+  });
+
+  relationships.forEach(relationship => {
+    const sourceNode = nodeMap.get(relationship.sourceId);
+    const targetNode = nodeMap.get(relationship.targetId);
+    if (!sourceNode || !targetNode) return;
+    const control = getRelationshipControlPoint(sourceNode, targetNode);
+    const labelWidth = relationship.label ? estimateTextWidth(relationship.label, LABEL_FONT_SIZE) + 12 : 0;
+    extendBounds(bounds, control.x - labelWidth / 2, control.y - LABEL_HEIGHT / 2, control.x + labelWidth / 2, control.y + LABEL_HEIGHT / 2);
+  });
+
+  guides.lines.forEach(line => {
+    extendBounds(bounds, Math.min(line.x1, line.x2), Math.min(line.y1, line.y2), Math.max(line.x1, line.x2), Math.max(line.y1, line.y2));
+  });
+  guides.labels.forEach(label => {
+    const labelWidth = estimateTextWidth(label.text, LABEL_FONT_SIZE);
+    extendBounds(bounds, label.x - labelWidth / 2, label.y - LABEL_HEIGHT / 2, label.x + labelWidth / 2, label.y + LABEL_HEIGHT / 2);
+  });
+
+  return {
+    minX: bounds.minX - EXPORT_PADDING,
+    minY: bounds.minY - EXPORT_PADDING,
+    maxX: bounds.maxX + EXPORT_PADDING,
+    maxY: bounds.maxY + EXPORT_PADDING
+  };
+};
+
+// 生成思维导图的SVG文本，默认导出完整导图
+export const createSVG = (data: MindMapData, options: SVGExportOptions = {}): string => {
+  const root = options.rootId
+    ? data.nodes.find(node => node.id === options.rootId)
+    : getRootNode(data.nodes);
+  if (!root) {
+    throw new Error('思维导图缺少根节点');
+  }
+
+  const visibleNodes = getVisibleNodes(root);
+  const nodeMap = new Map(visibleNodes.map(node => [node.id, node]));
+  const visibleRelationships = data.relationships.filter(
+    relationship => nodeMap.has(relationship.sourceId) && nodeMap.has(relationship.targetId)
+  );
+
+  // 布局辅助图形只在导出完整导图时绘制
+  const strategy = getLayoutStrategy(data.layout);
+  const guides: LayoutGuides = root.level === 0 && strategy.getGuides
+    ? strategy.getGuides(root)
+    : { lines: [], labels: [] };
+
+  const bounds = options.region
+    ? {
+      minX: options.region.x,
+      minY: options.region.y,
+      maxX: options.region.x + options.region.width,
+      maxY: options.region.y + options.region.height
+    }
+    : calculateBounds(visibleNodes, visibleRelationships, nodeMap, guides);
+  const width = Math.ceil(bounds.maxX - bounds.minX);
+  const height = Math.ceil(bounds.maxY - bounds.minY);
+
+  // 父子连接线，走向由布局决定
+  const connections = visibleNodes
+    .filter(node => node.expanded)
+    .flatMap(node => node.children.map(child => strategy.getConnectionPath(node, child)))
+    .map(pathData => `<path d="${pathData.replace(/\s+/g, ' ').trim()}"/>`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${bounds.minX} ${bounds.minY} ${width} ${height}" font-family="${escapeXml(FONT_FAMILY)}">`,
+    options.transparent ? '' : renderBackground(data.background, bounds),
+    renderGuides(guides),
+    `<g fill="none" stroke="${DEFAULT_CONNECTION_STYLE.lineColor}" stroke-width="${DEFAULT_CONNECTION_STYLE.lineWidth}">${connections.join('')}</g>`,
+    ...visibleRelationships.map(relationship => renderRelationship(
+      relationship,
+      nodeMap.get(relationship.sourceId)!,
+      nodeMap.get(relationship.targetId)!
+    )),
+    ...visibleNodes.map(renderNode),
+    '</svg>'
+  ].join('\n');
+};
+
+// 内嵌图片后的SVG
+export interface InlinedSVG {
+  svg: string;
+  failedImages: string[];   // 无法读取而被移除的图片地址
+}
+
+// createSVG生成的图片元素，图片地址位于xlink:href属性
+const IMAGE_ELEMENT_PATTERN = /<image\b[^>]*?\sxlink:href="([^"]*)"[^>]*\/>/g;
+
+// 读取图片并转换为data URL
+const readImageAsDataURL = async (src: string): Promise<string> => {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// 把SVG引用的外部图片内嵌为data URL，用于绘制为位图或PDF：
+// 作为<img>绘制的SVG不会加载外部资源，svg2pdf按扩展名判断图片格式且加载失败时整个导出失败。
+// 无法读取的图片（如不允许跨域访问）从SVG中移除
+export const inlineSVGImages = async (svg: string): Promise<InlinedSVG> => {
+  const hrefs = new Set(Array.from(svg.matchAll(IMAGE_ELEMENT_PATTERN), match => match[1]));
+  const dataUrls = new Map<string, string | null>();
+  const failedImages: string[] = [];
+
+  await Promise.all(Array.from(hrefs).map(async href => {
+    const src = unescapeXml(href);
+    if (src.startsWith('data:')) {
+      dataUrls.set(href, href);
+      return;
+    }
+    try {
+      dataUrls.set(href, escapeXml(await readImageAsDataURL(src)));
+    } catch (error) {
+      console.warn('无法内嵌图片:', src, error);
+      dataUrls.set(href, null);
+      failedImages.push(src);
+    }
+  }));
+
+  return {
+    svg: svg.replace(IMAGE_ELEMENT_PATTERN, (element, href: string) => {
+      const dataUrl = dataUrls.get(href);
+      return dataUrl ? element.replace(`xlink:href="${href}"`, () => `xlink:href="${dataUrl}"`) : '';
+    }),
+    failedImages
+  };
+};
@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MindNode, Relationship, LayoutType } from '@/types/mindmap';
+import { createNode, flattenNodes, DEFAULT_CONNECTION_STYLE } from '@/core/models/mindmap';
+import { calculateMindMapLayout } from '@/core/layouts/mindmap-layout';
+
+/**
+ * 格式转换通用工具
+ */
+
+// 导入图片时的默认尺寸（源文件未提供尺寸时使用）
+export const DEFAULT_IMAGE_WIDTH = 120;
+export const DEFAULT_IMAGE_HEIGHT = 80;
+
+// 创建子节点并挂到父节点下，层级和方向由父节点推导
+export const appendChildNode = (
+  parent: MindNode,
+  content: string,
+  direction?: 'left' | 'right'
+): MindNode => {
+  const childDirection = direction || (parent.level === 0 ? 'right' : parent.direction || 'right');
+  const child = createNode(content, parent.id, parent.level + 1, childDirection);
+  parent.children.push(child);
+  return child;
+};
+
+// 创建关系连线
+export const createRelationship = (sourceId: string, targetId: string, label: string = ''): Relationship => {
+  return {
+    id: uuidv4(),
+    sourceId,
+    targetId,
+    label,
+    style: { ...DEFAULT_CONNECTION_STYLE }
+  };
+};
+
+// 设置整棵子树的方向
+export const setSubtreeDirection = (node: MindNode, direction: 'left' | 'right'): void => {
+  node.direction = direction;
+  node.children.forEach(child => setSubtreeDirection(child, direction));
+};
+
+// 计算布局并扁平化为store使用的节点数组
+export const finalizeNodes = (root: MindNode, layout?: LayoutType): MindNode[] => {
+  return flattenNodes(calculateMindMapLayout(root, layout));
+};
+
+// 从扁平节点数组中获取根节点（其children为完整的子树）
+export const getRootNode = (nodes: MindNode[]): MindNode | null => {
+  return nodes.find(node => node.level === 0) || null;
+};
+
+// 深度优先遍历节点树
+export const walkTree = (
+  node: MindNode,
+  visitor: (node: MindNode, depth: number, parent: MindNode | null) => void,
+  depth: number = 0,
+  parent: MindNode | null = null
+): void => {
+  visitor(node, depth, parent);
+  node.children.forEach(child => walkTree(child, visitor, depth + 1, node));
+};
+
+// 复制对象并去掉指定字段
+export const omit = <T extends object, K extends keyof T>(value: T, keys: K[]): Omit<T, K> => {
+  const result = { ...value };
+  keys.forEach(key => delete result[key]);
+  return result;
+};
+
+// 转义XML特殊字符
+export const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// 转义XML属性值，换行转为字符引用以免被解析器规范化为空格
+export const escapeAttribute = (value: string): string => {
+  return escapeXml(value).replace(/\r?\n/g, '&#10;');
+};
+
+// 还原escapeXml转义的字符
+export const unescapeXml = (value: string): string => {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+// 解析XML文本，解析失败时抛出错误
+export const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('XML解析失败');
+  }
+  return doc;
+};
+
+// 获取元素的直接子元素（按本地名称匹配，忽略命名空间前缀）
+export const getChildElements = (element: Element, localName: string): Element[] => {
+  return Array.from(element.children).filter(child => child.localName === localName);
+};
+
+// 获取第一个匹配的直接子元素
+export const getChildElement = (element: Element, localName: string): Element | null => {
+  return getChildElements(element, localName)[0] || null;
+};
+
+// 根据扩展名推断图片MIME类型
+export const getImageMimeType = (fileName: string): string => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  const mimeTypes: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    svg: 'image/svg+xml',
+    webp: 'image/webp',
+    bmp: 'image/bmp'
+  };
+  return mimeTypes[extension] || 'application/octet-stream';
+};
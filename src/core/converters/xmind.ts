@@ -0,0 +1,443 @@
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { MindNode, NodeStyle, Relationship, MindMapData } from '@/types/mindmap';
+import { createNode } from '@/core/models/mindmap';
+import { balanceRootChildren } from '@/core/layouts/mindmap-layout';
+import {
+  appendChildNode,
+  createRelationship,
+  setSubtreeDirection,
+  finalizeNodes,
+  getRootNode,
+  parseXml,
+  getChildElement,
+  getChildElements,
+  getImageMimeType,
+  DEFAULT_IMAGE_WIDTH,
+  DEFAULT_IMAGE_HEIGHT
+} from './utils';
+
+/**
+ * XMind (.xmind) 导入导出
+ * 新版XMind使用content.json，XMind 8及更早版本使用content.xml
+ */
+
+// XMind主题
+interface XMindTopic {
+  id?: string;
+  class?: string;
+  title?: string;
+  structureClass?: string;
+  branch?: string;
+  href?: string;
+  children?: {
+    attached?: XMindTopic[];
+    detached?: XMindTopic[];
+  };
+  notes?: {
+    plain?: { content?: string };
+  };
+  labels?: string[];
+  markers?: { markerId: string }[];
+  image?: {
+    src: string;
+    width?: number;
+    height?: number;
+  };
+  style?: {
+    id?: string;
+    properties?: Record<string, string>;
+  };
+  extensions?: XMindExtension[];
+}
+
+// XMind扩展信息（用于记录右侧主题数量）
+interface XMindExtension {
+  provider: string;
+  content: { name: string; content: string }[] | unknown;
+}
+
+// XMind关系连线
+interface XMindRelationship {
+  id?: string;
+  end1Id: string;
+  end2Id: string;
+  title?: string;
+}
+
+// XMind画布
+interface XMindSheet {
+  id?: string;
+  class?: string;
+  title?: string;
+  rootTopic: XMindTopic;
+  relationships?: XMindRelationship[];
+}
+
+// 记录右侧主题数量的扩展
+const UNBALANCED_PROVIDER = 'org.xmind.ui.map.unbalanced';
+const MAP_STRUCTURE = 'org.xmind.ui.map.unbalanced';
+const XMIND_MIME_TYPE = 'application/vnd.xmind.workbook';
+
+// 解析XMind尺寸值（如 "14pt"）
+const parseSize = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const size = parseFloat(value);
+  return isNaN(size) ? undefined : size;
+};
+
+// XMind样式属性转换为节点样式
+const xmindStyleToNodeStyle = (properties: Record<string, string> = {}): Partial<NodeStyle> => {
+  const style: Partial<NodeStyle> = {};
+  if (properties['svg:fill'] && properties['svg:fill'] !== 'none') style.backgroundColor = properties['svg:fill'];
+  if (properties['fo:color']) style.fontColor = properties['fo:color'];
+  if (properties['border-line-color']) style.borderColor = properties['border-line-color'];
+  if (properties['fo:font-weight']) style.fontWeight = properties['fo:font-weight'];
+  const fontSize = parseSize(properties['fo:font-size']);
+  if (fontSize) style.fontSize = fontSize;
+  const borderWidth = parseSize(properties['border-line-width']);
+  if (borderWidth !== undefined) style.borderWidth = borderWidth;
+  return style;
+};
+
+// 节点样式转换为XMind样式属性
+const nodeStyleToXMindStyle = (style: NodeStyle): Record<string, string> => {
+  const properties: Record<string, string> = {};
+  if (style.backgroundColor) properties['svg:fill'] = style.backgroundColor;
+  if (style.fontColor) properties['fo:color'] = style.fontColor;
+  if (style.borderColor) properties['border-line-color'] = style.borderColor;
+  if (style.fontWeight !== undefined) properties['fo:font-weight'] = String(style.fontWeight);
+  if (style.fontSize) properties['fo:font-size'] = `${style.fontSize}pt`;
+  if (style.borderWidth !== undefined) properties['border-line-width'] = `${style.borderWidth}pt`;
+  return properties;
+};
+
+// 读取右侧主题数量
+const getRightNumber = (topic: XMindTopic): number | undefined => {
+  const extension = topic.extensions?.find(item => item.provider === UNBALANCED_PROVIDER);
+  if (!extension || !Array.isArray(extension.content)) return undefined;
+  const entry = (extension.content as { name: string; content: string }[]).find(item => item.name === 'right-number');
+  const value = entry ? parseInt(entry.content, 10) : NaN;
+  return isNaN(value) ? undefined : value;
+};
+
+// 读取压缩包中的图片为data URL
+const readImage = async (zip: JSZip, src: string): Promise<string> => {
+  if (!src.startsWith('xap:')) return src;
+  const path = src.substring('xap:'.length);
+  const file = zip.file(path);
+  if (!file) return '';
+  const base64 = await file.async('base64');
+  return `data:${getImageMimeType(path)};base64,${base64}`;
+};
+
+// 把XMind主题的属性写入节点
+const applyTopic = async (node: MindNode, topic: XMindTopic, zip: JSZip): Promise<void> => {
+  const note = topic.notes?.plain?.content;
+  if (note) node.note = note;
+
+  if (topic.branch === 'folded') node.expanded = false;
+
+  const style = xmindStyleToNodeStyle(topic.style?.properties);
+  if (Object.keys(style).length > 0) {
+    node.style = { ...node.style, ...style };
+  }
+
+  const meta: Record<string, unknown> = {};
+  if (topic.labels && topic.labels.length > 0) meta.labels = [...topic.labels];
+  if (topic.markers && topic.markers.length > 0) meta.markers = topic.markers.map(marker => marker.markerId);
+  if (topic.href) meta.href = topic.href;
+  node.meta = { ...node.meta, ...meta };
+
+  if (topic.image?.src) {
+    const src = await readImage(zip, topic.image.src);
+    if (src) {
+      node.image = {
+        src,
+        width: topic.image.width || DEFAULT_IMAGE_WIDTH,
+        height: topic.image.height || DEFAULT_IMAGE_HEIGHT
+      };
+    }
+  }
+};
+
+// 递归转换子主题
+const convertChildren = async (
+  parent: MindNode,
+  topic: XMindTopic,
+  zip: JSZip,
+  idMap: Map<string, string>
+): Promise<void> => {
+  for (const childTopic of topic.children?.attached || []) {
+    const child = appendChildNode(parent, childTopic.title || '');
+    if (childTopic.id) idMap.set(childTopic.id, child.id);
+    await applyTopic(child, childTopic, zip);
+    await convertChildren(child, childTopic, zip, idMap);
+  }
+};
+
+// 转换XMind画布为思维导图数据
+const convertSheet = async (sheet: XMindSheet, zip: JSZip): Promise<MindMapData> => {
+  const rootTopic = sheet.rootTopic;
+  if (!rootTopic) {
+    throw new Error('无效的XMind文件: 缺少中心主题');
+  }
+
+  const idMap = new Map<string, string>();
+  const root = createNode(rootTopic.title || sheet.title || '中心主题', undefined, 0);
+  if (rootTopic.id) idMap.set(rootTopic.id, root.id);
+  await applyTopic(root, rootTopic, zip);
+  await convertChildren(root, rootTopic, zip, idMap);
+
+  // 一级主题的左右分布：优先使用文件中记录的右侧主题数量
+  const rightNumber = getRightNumber(rootTopic);
+  if (rightNumber !== undefined) {
+    root.children.forEach((child, index) => {
+      setSubtreeDirection(child, index < rightNumber ? 'right' : 'left');
+    });
+  } else if (!rootTopic.structureClass || rootTopic.structureClass.includes('.map.')) {
+    balanceRootChildren(root);
+  }
+
+  const relationships: Relationship[] = [];
+  (sheet.relationships || []).forEach(item => {
+    const sourceId = idMap.get(item.end1Id);
+    const targetId = idMap.get(item.end2Id);
+    if (sourceId && targetId) {
+      relationships.push(createRelationship(sourceId, targetId, item.title || ''));
+    }
+  });
+
+  return { nodes: finalizeNodes(root), relationships };
+};
+
+// 把content.xml中的topic元素转换为XMind主题结构
+const xmlTopicToXMindTopic = (element: Element): XMindTopic => {
+  const topic: XMindTopic = {
+    id: element.getAttribute('id') || undefined,
+    title: getChildElement(element, 'title')?.textContent || '',
+    structureClass: element.getAttribute('structure-class') || undefined,
+    branch: element.getAttribute('branch') || undefined,
+    href: element.getAttribute('xlink:href') || undefined
+  };
+
+  const plainNote = getChildElement(element, 'notes');
+  const plain = plainNote ? getChildElement(plainNote, 'plain') : null;
+  if (plain?.textContent) {
+    topic.notes = { plain: { content: plain.textContent } };
+  }
+
+  const labels = getChildElement(element, 'labels');
+  if (labels) {
+    topic.labels = getChildElements(labels, 'label').map(label => label.textContent || '');
+  }
+
+  const markerRefs = getChildElement(element, 'marker-refs');
+  if (markerRefs) {
+    topic.markers = getChildElements(markerRefs, 'marker-ref')
+      .map(marker => ({ markerId: marker.getAttribute('marker-id') || '' }))
+      .filter(marker => marker.markerId);
+  }
+
+  const image = getChildElement(element, 'img');
+  if (image) {
+    topic.image = {
+      src: image.getAttribute('xhtml:src') || image.getAttribute('src') || '',
+      width: parseSize(image.getAttribute('svg:width') || undefined),
+      height: parseSize(image.getAttribute('svg:height') || undefined)
+    };
+  }
+
+  const extensions = getChildElement(element, 'extensions');
+  if (extensions) {
+    topic.extensions = getChildElements(extensions, 'extension').map(extension => {
+      const content = getChildElement(extension, 'content');
+      return {
+        provider: extension.getAttribute('provider') || '',
+        content: content
+          ? Array.from(content.children).map(item => ({ name: item.localName, content: item.textContent || '' }))
+          : []
+      };
+    });
+  }
+
+  const children = getChildElement(element, 'children');
+  if (children) {
+    const attached = getChildElements(children, 'topics').find(
+      topics => (topics.getAttribute('type') || 'attached') === 'attached'
+    );
+    if (attached) {
+      topic.children = {
+        attached: getChildElements(attached, 'topic').map(xmlTopicToXMindTopic)
+      };
+    }
+  }
+
+  return topic;
+};
+
+// 解析content.xml中的第一个画布
+const parseContentXml = (text: string): XMindSheet => {
+  const doc = parseXml(text);
+  const sheet = doc.getElementsByTagName('sheet')[0];
+  if (!sheet) {
+    throw new Error('无效的XMind文件: 缺少画布');
+  }
+
+  const rootTopic = getChildElement(sheet, 'topic');
+  if (!rootTopic) {
+    throw new Error('无效的XMind文件: 缺少中心主题');
+  }
+
+  const relationshipsElement = getChildElement(sheet, 'relationships');
+  const relationships = relationshipsElement
+    ? getChildElements(relationshipsElement, 'relationship').map(item => ({
+      id: item.getAttribute('id') || undefined,
+      end1Id: item.getAttribute('end1') || '',
+      end2Id: item.getAttribute('end2') || '',
+      title: getChildElement(item, 'title')?.textContent || ''
+    }))
+    : [];
+
+  return {
+    id: sheet.getAttribute('id') || undefined,
+    title: getChildElement(sheet, 'title')?.textContent || '',
+    rootTopic: xmlTopicToXMindTopic(rootTopic),
+    relationships
+  };
+};
+
+// 解析XMind文件
+export const parseXMind = async (data: ArrayBuffer): Promise<MindMapData> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('无效的XMind文件: 不是有效的压缩包');
+  }
+
+  const contentJson = zip.file('content.json');
+  if (contentJson) {
+    const sheets = JSON.parse(await contentJson.async('string')) as XMindSheet[];
+    if (!Array.isArray(sheets) || sheets.length === 0) {
+      throw new Error('无效的XMind文件: 缺少画布');
+    }
+    return convertSheet(sheets[0], zip);
+  }
+
+  const contentXml = zip.file('content.xml');
+  if (contentXml) {
+    return convertSheet(parseContentXml(await contentXml.async('string')), zip);
+  }
+
+  throw new Error('无效的XMind文件: 缺少content.json或content.xml');
+};
+
+// 生成XMind文件
+export const createXMind = async (data: MindMapData): Promise<Blob> => {
+  const root = getRootNode(data.nodes);
+  if (!root) {
+    throw new Error('思维导图缺少根节点');
+  }
+
+  const zip = new JSZip();
+  const fileEntries: Record<string, object> = {
+    'content.json': {},
+    'metadata.json': {}
+  };
+  const exportedIds = new Set<string>();
+
+  // 把data URL图片写入resources目录
+  const writeImage = (src: string): string => {
+    const match = /^data:([^;,]+)?(;base64)?,(.*)$/.exec(src);
+    if (!match) return src;
+    const mimeType = match[1] || 'image/png';
+    const extension = mimeType.split('/')[1]?.replace('svg+xml', 'svg').replace('jpeg', 'jpg') || 'png';
+    const path = `resources/${uuidv4()}.${extension}`;
+    if (match[2]) {
+      zip.file(path, match[3], { base64: true });
+    } else {
+      zip.file(path, decodeURIComponent(match[3]));
+    }
+    fileEntries[path] = {};
+    return `xap:${path}`;
+  };
+
+  // 节点转换为XMind主题
+  const toTopic = (node: MindNode): XMindTopic => {
+    exportedIds.add(node.id);
+    const topic: XMindTopic = {
+      id: node.id,
+      class: 'topic',
+      title: node.content
+    };
+
+    if (node.note) topic.notes = { plain: { content: node.note } };
+    if (!node.expanded && node.children.length > 0) topic.branch = 'folded';
+
+    const labels = node.meta?.labels;
+    if (Array.isArray(labels) && labels.length > 0) topic.labels = labels.map(String);
+    const markers = node.meta?.markers;
+    if (Array.isArray(markers) && markers.length > 0) {
+      topic.markers = markers.map(markerId => ({ markerId: String(markerId) }));
+    }
+    if (typeof node.meta?.href === 'string') topic.href = node.meta.href;
+
+    if (node.image?.src) {
+      topic.image = {
+        src: writeImage(node.image.src),
+        width: node.image.width,
+        height: node.image.height
+      };
+    }
+
+    const properties = nodeStyleToXMindStyle(node.style);
+    if (Object.keys(properties).length > 0) {
+      topic.style = { id: uuidv4(), properties };
+    }
+
+    // 根节点的子主题按右侧、左侧排列，并记录右侧数量
+    let children = node.children;
+    if (node.level === 0) {
+      const rightChildren = node.children.filter(child => child.direction !== 'left');
+      const leftChildren = node.children.filter(child => child.direction === 'left');
+      children = [...rightChildren, ...leftChildren];
+      topic.structureClass = MAP_STRUCTURE;
+      topic.extensions = [{
+        provider: UNBALANCED_PROVIDER,
+        content: [{ name: 'right-number', content: String(rightChildren.length) }]
+      }];
+    }
+
+    if (children.length > 0) {
+      topic.children = { attached: children.map(toTopic) };
+    }
+
+    return topic;
+  };
+
+  const rootTopic = toTopic(root);
+  const relationships: XMindRelationship[] = data.relationships
+    .filter(relationship => exportedIds.has(relationship.sourceId) && exportedIds.has(relationship.targetId))
+    .map(relationship => ({
+      id: relationship.id,
+      end1Id: relationship.sourceId,
+      end2Id: relationship.targetId,
+      title: relationship.label || undefined
+    }));
+
+  const sheet: XMindSheet & { topicPositioning: string } = {
+    id: uuidv4(),
+    class: 'sheet',
+    title: root.content,
+    rootTopic,
+    relationships,
+    topicPositioning: 'fixed'
+  };
+
+  zip.file('content.json', JSON.stringify([sheet]));
+  zip.file('metadata.json', JSON.stringify({ creator: { name: 'WebXmind', version: '1.0.0' } }));
+  zip.file('manifest.json', JSON.stringify({ 'file-entries': fileEntries }));
+
+  return zip.generateAsync({ type: 'blob', mimeType: XMIND_MIME_TYPE });
+};
@@ -0,0 +1,68 @@
+import { MindNode } from '@/types/mindmap';
+import {
+  generateConnectionPath,
+  generateFishboneBonePath,
+  generateFishboneBranchPath
+} from '@/core/utils/connection-path';
+import { LayoutConfig, LayoutStrategy, getNodeSize, getVisibleChildren } from './layout-strategy';
+import { layoutBranch, measureBranch } from './horizontal-layout';
+
+// 大骨与鱼脊成60度角，每远离鱼脊一个单位向左偏移的距离
+const BONE_SLOPE = 1 / Math.tan(Math.PI / 3);
+
+// 子树中最左侧节点的左边缘
+function getLeftEdge(node: MindNode): number {
+  const left = (node.position?.x || 0) - getNodeSize(node).width / 2;
+  return getVisibleChildren(node).reduce((min, child) => Math.min(min, getLeftEdge(child)), left);
+}
+
+// 排列一根大骨：大骨从鱼脊上的attachX出发斜向左上（sign为-1）或左下（sign为1），
+// 中骨沿大骨从靠近鱼脊处向外依次水平伸出，大骨节点位于大骨末端。返回这根大骨及其分支的最左边缘
+function layoutBone(
+  boneNode: MindNode,
+  attachX: number,
+  sign: number,
+  config: LayoutConfig
+): number {
+  // 大骨在距离鱼脊distance处的x坐标
+  const boneX = (distance: number) => attachX - distance * BONE_SLOPE;
+  const stub = config.horizontalSpacing / 4;
+
+  // 每个中骨分支占据一段高度，分支的右边缘以这段高度最外侧的大骨位置为准，避免与大骨相交
+  let distance = config.verticalSpacing;
+  getVisibleChildren(boneNode).forEach(branch => {
+    const height = measureBranch(branch, config);
+    const right = boneX(distance + height) - stub;
+    layoutBranch(branch, right - getNodeSize(branch).width / 2, sign * (distance + height / 2), 'left', config);
+    distance += height + config.verticalSpacing / 2;
+  });
+
+  // 大骨节点靠近鱼脊的一边位于大骨末端
+  const { height } = getNodeSize(boneNode);
+  boneNode.position = { x: boneX(distance), y: sign * (distance + height / 2) };
+  return getLeftEdge(boneNode);
+}
+
+// 鱼骨图（石川图）：根节点作为鱼头位于右侧，鱼脊向左延伸；
+// 一级节点交替排在鱼脊上方和下方作为斜向的大骨，更深的节点从大骨上水平伸出
+export const fishboneStrategy: LayoutStrategy = {
+  type: 'fishbone',
+  name: '鱼骨图',
+  layout: (rootNode, config) => {
+    rootNode.position = { x: 0, y: 0 };
+
+    // 上下两侧各自从鱼头向左排列大骨，同侧相邻的大骨不重叠
+    const startX = -(getNodeSize(rootNode).width / 2 + config.horizontalSpacing / 2);
+    const nextAttachX = { above: startX, below: startX };
+    getVisibleChildren(rootNode).forEach((boneNode, index) => {
+      const side = index % 2 === 0 ? 'above' : 'below';
+      const leftEdge = layoutBone(boneNode, nextAttachX[side], side === 'above' ? -1 : 1, config);
+      nextAttachX[side] = leftEdge - config.horizontalSpacing / 2;
+    });
+  },
+  getConnectionPath: (sourceNode, targetNode) => {
+    if (sourceNode.level === 0) return generateFishboneBonePath(sourceNode, targetNode, BONE_SLOPE);
+    if (sourceNode.level === 1) return generateFishboneBranchPath(sourceNode, targetNode, BONE_SLOPE);
+    return generateConnectionPath(sourceNode, targetNode, 'left');
+  }
+};
@@ -0,0 +1,175 @@
+import { MindNode } from '@/types/mindmap';
+import { generateConnectionPath } from '@/core/utils/connection-path';
+import {
+  LayoutConfig,
+  LayoutStrategy,
+  DEFAULT_LAYOUT_CONFIG,
+  getNodeSize,
+  getVisibleChildren,
+  getStackLength
+} from './layout-strategy';
+
+// 节点位于根节点的哪一侧
+export type LayoutSide = 'left' | 'right';
+
+// 决定根节点的每个分支排在哪一侧
+type SideResolver = (child: MindNode) => LayoutSide;
+
+// 根节点的子节点按所在侧分组
+function splitRootChildren(rootNode: MindNode, getSide: SideResolver): Record<LayoutSide, MindNode[]> {
+  const children = getVisibleChildren(rootNode);
+  return {
+    left: children.filter(child => getSide(child) === 'left'),
+    right: children.filter(child => getSide(child) === 'right')
+  };
+}
+
+// 递归计算每个节点子树占用的高度，根节点取左右两侧中较高的一侧
+function calcSubtreeHeight(
+  node: MindNode,
+  heightMap: Map<string, number>,
+  config: LayoutConfig,
+  getSide: SideResolver
+): number {
+  node.children.forEach(child => calcSubtreeHeight(child, heightMap, config, getSide));
+
+  let height = getNodeSize(node).height;
+  if (node.level === 0) {
+    const { left, right } = splitRootChildren(node, getSide);
+    height = Math.max(
+      height,
+      getStackLength(left, heightMap, config.verticalSpacing),
+      getStackLength(right, heightMap, config.verticalSpacing)
+    );
+  } else {
+    height = Math.max(height, getStackLength(getVisibleChildren(node), heightMap, config.verticalSpacing));
+  }
+  heightMap.set(node.id, height);
+  return height;
+}
+
+// 把一组子节点纵向排列在父节点的一侧，并以父节点为垂直中心
+function layoutChildren(
+  parent: MindNode,
+  x: number,
+  y: number,
+  children: MindNode[],
+  side: LayoutSide,
+  heightMap: Map<string, number>,
+  config: LayoutConfig
+) {
+  if (children.length === 0) return;
+  const size = getNodeSize(parent);
+  // 水平偏移
+  const offsetX = side === 'left'
+    ? x - (size.width / 2 + config.horizontalSpacing)
+    : x + (size.width / 2 + config.horizontalSpacing);
+  // 子节点组的起始y
+  let startY = y - getStackLength(children, heightMap, config.verticalSpacing) / 2;
+  children.forEach(child => {
+    const childHeight = heightMap.get(child.id) || 0;
+    setPositions(child, offsetX, startY + childHeight / 2, side, heightMap, config);
+    startY += childHeight + config.verticalSpacing;
+  });
+}
+
+// 设置节点及其子树的position，子节点都排在节点所在的一侧
+function setPositions(
+  node: MindNode,
+  x: number,
+  y: number,
+  side: LayoutSide,
+  heightMap: Map<string, number>,
+  config: LayoutConfig
+) {
+  node.position = { x, y };
+  layoutChildren(node, x, y, getVisibleChildren(node), side, heightMap, config);
+}
+
+// 水平布局：根节点的分支分布在一侧或两侧，每一侧的子树各自纵向排列并以根节点为中心
+function layoutHorizontal(rootNode: MindNode, config: LayoutConfig, getSide: SideResolver) {
+  // 第一遍递归，计算所有子树的高度
+  const heightMap = new Map<string, number>();
+  calcSubtreeHeight(rootNode, heightMap, config, getSide);
+  // 第二遍递归，设置所有节点的position
+  rootNode.position = { x: 0, y: 0 };
+  const { left, right } = splitRootChildren(rootNode, getSide);
+  layoutChildren(rootNode, 0, 0, left, 'left', heightMap, config);
+  layoutChildren(rootNode, 0, 0, right, 'right', heightMap, config);
+}
+
+// 把一个节点的子树作为逻辑图排列：节点位于(x, y)，子树全部向指定一侧展开
+// 返回子树占用的高度，供其他布局（如鱼骨图）嵌入水平分支时使用
+export const layoutBranch = (
+  node: MindNode,
+  x: number,
+  y: number,
+  side: LayoutSide,
+  config: LayoutConfig
+): number => {
+  const heightMap = new Map<string, number>();
+  const height = calcSubtreeHeight(node, heightMap, config, () => side);
+  setPositions(node, x, y, side, heightMap, config);
+  return height;
+};
+
+// 计算一个节点的子树作为逻辑图排列时占用的高度
+export const measureBranch = (node: MindNode, config: LayoutConfig): number => {
+  return calcSubtreeHeight(node, new Map<string, number>(), config, () => 'right');
+};
+
+// 按节点的direction决定所在侧，未指定方向的排在右侧
+const getDirectionSide: SideResolver = child => child.direction === 'left' ? 'left' : 'right';
+
+// 设置整个子树的方向
+function setSubtreeSide(node: MindNode, side: LayoutSide) {
+  node.direction = side;
+  node.children.forEach(child => setSubtreeSide(child, side));
+}
+
+// 自动平衡：按顺序把根节点的每个分支放到当前较矮的一侧，使左右两侧高度接近
+export const balanceRootChildren = (
+  rootNode: MindNode,
+  config: LayoutConfig = DEFAULT_LAYOUT_CONFIG
+): MindNode => {
+  const heightMap = new Map<string, number>();
+  calcSubtreeHeight(rootNode, heightMap, config, getDirectionSide);
+  const sideHeights: Record<LayoutSide, number> = { left: 0, right: 0 };
+  rootNode.children.forEach(child => {
+    // 高度相同时优先放在右侧
+    const side: LayoutSide = sideHeights.left < sideHeights.right ? 'left' : 'right';
+    if (sideHeights[side] > 0) sideHeights[side] += config.verticalSpacing;
+    sideHeights[side] += heightMap.get(child.id) || 0;
+    setSubtreeSide(child, side);
+  });
+  return rootNode;
+};
+
+// 思维导图：根节点的分支按direction分布在左右两侧
+export const mindMapStrategy: LayoutStrategy = {
+  type: 'mindmap',
+  name: '思维导图',
+  layout: (rootNode, config) => layoutHorizontal(rootNode, config, getDirectionSide),
+  // 子节点排在所在分支的一侧，与节点自身的direction可能不一致（如拖动分支后），因此按位置决定连接方向
+  getConnectionPath: (sourceNode, targetNode) => generateConnectionPath(
+    sourceNode,
+    targetNode,
+    (targetNode.position?.x || 0) < (sourceNode.position?.x || 0) ? 'left' : 'right'
+  )
+};
+
+// 逻辑图（向右）：所有分支都排在根节点右侧
+export const logicRightStrategy: LayoutStrategy = {
+  type: 'logicRight',
+  name: '逻辑图（向右）',
+  layout: (rootNode, config) => layoutHorizontal(rootNode, config, () => 'right'),
+  getConnectionPath: (sourceNode, targetNode) => generateConnectionPath(sourceNode, targetNode, 'right')
+};
+
+// 逻辑图（向左）：所有分支都排在根节点左侧
+export const logicLeftStrategy: LayoutStrategy = {
+  type: 'logicLeft',
+  name: '逻辑图（向左）',
+  layout: (rootNode, config) => layoutHorizontal(rootNode, config, () => 'left'),
+  getConnectionPath: (sourceNode, targetNode) => generateConnectionPath(sourceNode, targetNode, 'left')
+};
@@ -0,0 +1,62 @@
+import { MindNode, LayoutType } from '@/types/mindmap';
+
+// 节点计算约束配置
+export interface LayoutConfig {
+  // 节点水平间距
+  horizontalSpacing: number;
+  // 节点垂直间距
+  verticalSpacing: number;
+  // 节点默认宽度
+  defaultNodeWidth: number;
+  // 节点默认高度
+  defaultNodeHeight: number;
+}
+
+// 默认布局配置
+export const DEFAULT_LAYOUT_CONFIG: LayoutConfig = {
+  horizontalSpacing: 80,
+  verticalSpacing: 40,
+  defaultNodeWidth: 120,
+  defaultNodeHeight: 40,
+};
+
+// 布局的辅助图形（如时间轴的坐标轴和刻度），绘制在连接线下方，不参与交互
+export interface LayoutGuides {
+  lines: { x1: number; y1: number; x2: number; y2: number }[];
+  labels: { x: number; y: number; text: string }[];   // 文字以(x, y)为中心
+}
+
+// 布局策略：计算整棵树的节点位置，并决定父子节点之间连接线的走向
+export interface LayoutStrategy {
+  type: LayoutType;
+  name: string;   // 显示名称
+  // 从根节点开始设置所有节点的position（原地修改），根节点位于(0, 0)
+  layout: (rootNode: MindNode, config: LayoutConfig) => void;
+  // 生成父子节点之间的连接线路径
+  getConnectionPath: (sourceNode: MindNode, targetNode: MindNode) => string;
+  // 根据已排好的节点位置生成辅助图形，没有辅助图形的布局不实现
+  getGuides?: (rootNode: MindNode) => LayoutGuides;
+}
+
+// 获取节点大小信息
+export function getNodeSize(node: MindNode): { width: number; height: number } {
+  const width = node.style.width || DEFAULT_LAYOUT_CONFIG.defaultNodeWidth;
+  const height = node.style.height || DEFAULT_LAYOUT_CONFIG.defaultNodeHeight;
+  return { width, height };
+}
+
+// 节点展开时参与布局的子节点
+export function getVisibleChildren(node: MindNode): MindNode[] {
+  return node.expanded ? node.children : [];
+}
+
+// 一组子树依次排列时的总长度（子树长度之和加上间距）
+export function getStackLength(
+  children: MindNode[],
+  lengthMap: Map<string, number>,
+  spacing: number
+): number {
+  if (children.length === 0) return 0;
+  const total = children.reduce((sum, child) => sum + (lengthMap.get(child.id) || 0), 0);
+  return total + spacing * (children.length - 1);
+}
@@ -0,0 +1,79 @@
+import { MindNode } from '@/types/mindmap';
+import { generateVerticalConnectionPath } from '@/core/utils/connection-path';
+import {
+  LayoutConfig,
+  LayoutStrategy,
+  getNodeSize,
+  getVisibleChildren,
+  getStackLength
+} from './layout-strategy';
+
+// 组织结构图的生长方向
+type Orientation = 'down' | 'up';
+
+// 组织结构图中兄弟节点横向排列，间距比水平布局的层级间距小
+const getSiblingSpacing = (config: LayoutConfig) => config.horizontalSpacing / 4;
+
+// 递归计算每个节点子树占用的宽度
+function calcSubtreeWidth(
+  node: MindNode,
+  widthMap: Map<string, number>,
+  config: LayoutConfig
+): number {
+  node.children.forEach(child => calcSubtreeWidth(child, widthMap, config));
+
+  const width = Math.max(
+    getNodeSize(node).width,
+    getStackLength(getVisibleChildren(node), widthMap, getSiblingSpacing(config))
+  );
+  widthMap.set(node.id, width);
+  return width;
+}
+
+// 设置节点及其子树的position，子节点横向排列在父节点下方（向上时在上方）并以父节点为水平中心
+function setPositions(
+  node: MindNode,
+  x: number,
+  y: number,
+  orientation: Orientation,
+  widthMap: Map<string, number>,
+  config: LayoutConfig
+) {
+  node.position = { x, y };
+  const children = getVisibleChildren(node);
+  if (children.length === 0) return;
+
+  const sign = orientation === 'down' ? 1 : -1;
+  const parentHeight = getNodeSize(node).height;
+  let startX = x - getStackLength(children, widthMap, getSiblingSpacing(config)) / 2;
+  children.forEach(child => {
+    const childWidth = widthMap.get(child.id) || 0;
+    // 同一层的子节点靠近父节点的一边对齐
+    const childY = y + sign * (parentHeight / 2 + config.verticalSpacing + getNodeSize(child).height / 2);
+    setPositions(child, startX + childWidth / 2, childY, orientation, widthMap, config);
+    startX += childWidth + getSiblingSpacing(config);
+  });
+}
+
+// 按指定方向布局组织结构图
+function layoutOrgChart(rootNode: MindNode, config: LayoutConfig, orientation: Orientation) {
+  const widthMap = new Map<string, number>();
+  calcSubtreeWidth(rootNode, widthMap, config);
+  setPositions(rootNode, 0, 0, orientation, widthMap, config);
+}
+
+// 组织结构图（向下）：根节点在最上方，子节点逐层向下展开
+export const orgChartStrategy: LayoutStrategy = {
+  type: 'orgChart',
+  name: '组织结构图（向下）',
+  layout: (rootNode, config) => layoutOrgChart(rootNode, config, 'down'),
+  getConnectionPath: (sourceNode, targetNode) => generateVerticalConnectionPath(sourceNode, targetNode, 'down')
+};
+
+// 组织结构图（向上）：根节点在最下方，子节点逐层向上展开
+export const orgChartUpStrategy: LayoutStrategy = {
+  type: 'orgChartUp',
+  name: '组织结构图（向上）',
+  layout: (rootNode, config) => layoutOrgChart(rootNode, config, 'up'),
+  getConnectionPath: (sourceNode, targetNode) => generateVerticalConnectionPath(sourceNode, targetNode, 'up')
+};
@@ -0,0 +1,75 @@
+import { MindNode } from '@/types/mindmap';
+import { generateRadialConnectionPath } from '@/core/utils/connection-path';
+import { LayoutConfig, LayoutStrategy, getNodeSize, getVisibleChildren } from './layout-strategy';
+
+// 第一个分支从正上方开始，按顺时针排列
+const START_ANGLE = -Math.PI / 2;
+
+// 递归统计每个节点子树中可见的叶子节点数量，折叠的节点算作一个叶子
+function countLeaves(node: MindNode, leafMap: Map<string, number>): number {
+  const children = getVisibleChildren(node);
+  const leaves = children.length === 0
+    ? 1
+    : children.reduce((sum, child) => sum + countLeaves(child, leafMap), 0);
+  leafMap.set(node.id, leaves);
+  return leaves;
+}
+
+// 统计每一层中最宽的节点，用于计算相邻两圈的间距
+function collectLevelWidths(node: MindNode, depth: number, widths: number[]) {
+  widths[depth] = Math.max(widths[depth] || 0, getNodeSize(node).width);
+  getVisibleChildren(node).forEach(child => collectLevelWidths(child, depth + 1, widths));
+}
+
+// 计算每一层所在圆的半径
+// 相邻两圈之间至少容纳两层中最宽的节点；第一圈的周长要能让每个叶子分到的弧长放下一个节点
+function calcRingRadii(rootNode: MindNode, leafCount: number, config: LayoutConfig): number[] {
+  const widths: number[] = [];
+  collectLevelWidths(rootNode, 0, widths);
+
+  const minArc = config.defaultNodeHeight + config.verticalSpacing / 2;
+  const minRadius = leafCount * minArc / (2 * Math.PI);
+  const radii = [0];
+  for (let depth = 1; depth < widths.length; depth++) {
+    const gap = widths[depth - 1] / 2 + widths[depth] / 2 + config.horizontalSpacing / 2;
+    radii[depth] = depth === 1 ? Math.max(gap, minRadius) : radii[depth - 1] + gap;
+  }
+  return radii;
+}
+
+// 把节点放在所分配扇区的中线上，并按叶子数量把扇区分给子节点
+function setPositions(
+  node: MindNode,
+  depth: number,
+  startAngle: number,
+  sweep: number,
+  radii: number[],
+  leafMap: Map<string, number>
+) {
+  const angle = startAngle + sweep / 2;
+  node.position = depth === 0
+    ? { x: 0, y: 0 }
+    : { x: radii[depth] * Math.cos(angle), y: radii[depth] * Math.sin(angle) };
+
+  const children = getVisibleChildren(node);
+  const leaves = leafMap.get(node.id) || 1;
+  let childStart = startAngle;
+  children.forEach(child => {
+    const childSweep = sweep * (leafMap.get(child.id) || 1) / leaves;
+    setPositions(child, depth + 1, childStart, childSweep, radii, leafMap);
+    childStart += childSweep;
+  });
+}
+
+// 放射图：根节点位于圆心，各层节点排在同心圆上，每棵子树分到的扇区与其叶子数量成正比
+export const radialStrategy: LayoutStrategy = {
+  type: 'radial',
+  name: '放射图',
+  layout: (rootNode, config) => {
+    const leafMap = new Map<string, number>();
+    const leafCount = countLeaves(rootNode, leafMap);
+    const radii = calcRingRadii(rootNode, leafCount, config);
+    setPositions(rootNode, 0, START_ANGLE, Math.PI * 2, radii, leafMap);
+  },
+  getConnectionPath: (sourceNode, targetNode) => generateRadialConnectionPath(sourceNode, targetNode)
+};
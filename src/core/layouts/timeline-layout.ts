@@ -0,0 +1,142 @@
+import { MindNode } from '@/types/mindmap';
+import { generateIndentConnectionPath, generateTimelineConnectionPath } from '@/core/utils/connection-path';
+import { parseNodeDate } from '@/core/utils/node-date';
+import {
+  LayoutConfig,
+  LayoutStrategy,
+  LayoutGuides,
+  DEFAULT_LAYOUT_CONFIG,
+  getNodeSize,
+  getVisibleChildren
+} from './layout-strategy';
+import { getIndent } from './tree-layout';
+
+// 刻度线伸出时间轴的长度
+const TICK_SIZE = 4;
+// 刻度文字中心与时间轴的距离
+const LABEL_OFFSET = 16;
+
+// 所有一级节点都有有效日期时返回各自的天数，否则返回null
+function getDays(nodes: MindNode[]): number[] | null {
+  const days = nodes.map(node => (node.date ? parseNodeDate(node.date) : null));
+  return days.every(day => day !== null) ? days as number[] : null;
+}
+
+// 子树作为缩进列表排列时的宽度
+function measureBranchWidth(node: MindNode, config: LayoutConfig): number {
+  const childWidth = getVisibleChildren(node).reduce(
+    (max, child) => Math.max(max, getIndent(config) + measureBranchWidth(child, config)),
+    0
+  );
+  return Math.max(getNodeSize(node).width, childWidth);
+}
+
+// 把子树排成远离时间轴的缩进列表：distance为当前行靠近时间轴一边到时间轴的距离，
+// sign为-1时排在时间轴上方，为1时排在下方。返回下一行的distance
+function setBranchPositions(
+  node: MindNode,
+  left: number,
+  distance: number,
+  sign: number,
+  config: LayoutConfig
+): number {
+  const { width, height } = getNodeSize(node);
+  node.position = { x: left + width / 2, y: sign * (distance + height / 2) };
+
+  let nextDistance = distance + height + config.verticalSpacing / 2;
+  getVisibleChildren(node).forEach(child => {
+    nextDistance = setBranchPositions(child, left + getIndent(config), nextDistance, sign, config);
+  });
+  return nextDistance;
+}
+
+// 计算一级节点在时间轴上的x坐标（节点中心即刻度位置）
+// 先按日期比例（没有日期时等距）得到理想位置，再依次向右推开，保证相邻刻度和同侧相邻子树不重叠
+function placeTicks(rootNode: MindNode, nodes: MindNode[], days: number[] | null, config: LayoutConfig): number[] {
+  const rootRight = getNodeSize(rootNode).width / 2;
+  const widths = nodes.map(node => getNodeSize(node).width);
+  const branchWidths = nodes.map(node => measureBranchWidth(node, config));
+
+  const tickGap = config.horizontalSpacing;
+  const getStart = (index: number) => rootRight + config.horizontalSpacing / 2 + widths[index] / 2;
+  // 同一侧前一个子树的右边缘到当前节点中心的最小距离
+  const getSameSideGap = (index: number) =>
+    branchWidths[index - 2] - widths[index - 2] / 2 + config.horizontalSpacing / 2 + widths[index] / 2;
+
+  let step = tickGap;
+  for (let index = 2; index < nodes.length; index++) {
+    step = Math.max(step, getSameSideGap(index) / 2);
+  }
+
+  const span = days ? days[days.length - 1] - days[0] : 0;
+  const pixelsPerDay = span > 0 ? step * (nodes.length - 1) / span : 0;
+
+  const xs: number[] = [];
+  nodes.forEach((_, index) => {
+    const offset = days ? (days[index] - days[0]) * pixelsPerDay : index * step;
+    let x = Math.max(getStart(0) + offset, getStart(index));
+    if (index >= 1) x = Math.max(x, xs[index - 1] + tickGap);
+    if (index >= 2) x = Math.max(x, xs[index - 2] + getSameSideGap(index));
+    xs.push(x);
+  });
+  return xs;
+}
+
+// 时间轴上的一级节点，按日期或原有顺序从左到右排列
+function getTimelineNodes(rootNode: MindNode): MindNode[] {
+  return [...getVisibleChildren(rootNode)].sort((a, b) => (a.position?.x || 0) - (b.position?.x || 0));
+}
+
+// 子树中最右侧节点的右边缘
+function getRightEdge(node: MindNode): number {
+  const right = (node.position?.x || 0) + getNodeSize(node).width / 2;
+  return getVisibleChildren(node).reduce((max, child) => Math.max(max, getRightEdge(child)), right);
+}
+
+// 时间轴：根节点位于时间轴左端，一级节点沿时间轴从左到右排列，
+// 所有一级节点都有日期时按日期排序并按日期间隔排列，否则按原有顺序等距排列；
+// 一级节点交替排在时间轴上方和下方，子树作为缩进列表向远离时间轴的方向展开
+export const timelineStrategy: LayoutStrategy = {
+  type: 'timeline',
+  name: '时间轴',
+  layout: (rootNode, config) => {
+    rootNode.position = { x: 0, y: 0 };
+
+    // 有日期时按日期排序，日期相同的保持原有顺序
+    const children = getVisibleChildren(rootNode);
+    const childDays = getDays(children);
+    const order = children.map((_, index) => index);
+    if (childDays) order.sort((a, b) => childDays[a] - childDays[b]);
+    const nodes = order.map(index => children[index]);
+    const days = childDays && order.map(index => childDays[index]);
+
+    const xs = placeTicks(rootNode, nodes, days, config);
+    nodes.forEach((node, index) => {
+      const left = xs[index] - getNodeSize(node).width / 2;
+      setBranchPositions(node, left, config.verticalSpacing, index % 2 === 0 ? -1 : 1, config);
+    });
+  },
+  getConnectionPath: (sourceNode, targetNode) => {
+    if (sourceNode.level === 0) return generateTimelineConnectionPath(sourceNode, targetNode);
+    const orientation = (sourceNode.position?.y || 0) < 0 ? 'up' : 'down';
+    return generateIndentConnectionPath(sourceNode, targetNode, getIndent(DEFAULT_LAYOUT_CONFIG), orientation);
+  },
+  // 时间轴本身、每个一级节点的刻度，以及排在节点对侧的刻度文字（节点日期，没有日期时为序号）
+  getGuides: (rootNode) => {
+    const guides: LayoutGuides = { lines: [], labels: [] };
+    const nodes = getTimelineNodes(rootNode);
+    if (nodes.length === 0) return guides;
+
+    const start = (rootNode.position?.x || 0) + getNodeSize(rootNode).width / 2;
+    const end = Math.max(...nodes.map(getRightEdge)) + DEFAULT_LAYOUT_CONFIG.horizontalSpacing / 2;
+    guides.lines.push({ x1: start, y1: 0, x2: end, y2: 0 });
+
+    nodes.forEach((node, index) => {
+      const x = node.position?.x || 0;
+      const labelY = (node.position?.y || 0) < 0 ? LABEL_OFFSET : -LABEL_OFFSET;
+      guides.lines.push({ x1: x, y1: -TICK_SIZE, x2: x, y2: TICK_SIZE });
+      guides.labels.push({ x, y: labelY, text: node.date || String(index + 1) });
+    });
+    return guides;
+  }
+};
@@ -0,0 +1,35 @@
+import { MindNode } from '@/types/mindmap';
+import { generateIndentConnectionPath } from '@/core/utils/connection-path';
+import { LayoutConfig, LayoutStrategy, DEFAULT_LAYOUT_CONFIG, getNodeSize, getVisibleChildren } from './layout-strategy';
+
+// 子节点相对父节点左边缘的缩进
+export const getIndent = (config: LayoutConfig) => config.horizontalSpacing / 2;
+
+// 按先序遍历逐行排列节点，返回下一行的起始y
+function setPositions(
+  node: MindNode,
+  left: number,
+  top: number,
+  config: LayoutConfig
+): number {
+  const { width, height } = getNodeSize(node);
+  node.position = { x: left + width / 2, y: top + height / 2 };
+
+  let nextTop = top + height + config.verticalSpacing / 2;
+  getVisibleChildren(node).forEach(child => {
+    nextTop = setPositions(child, left + getIndent(config), nextTop, config);
+  });
+  return nextTop;
+}
+
+// 树形目录：类似文件浏览器，每个节点占一行，子节点向右缩进排在父节点下方
+export const treeStrategy: LayoutStrategy = {
+  type: 'tree',
+  name: '树形目录',
+  layout: (rootNode, config) => {
+    const { width, height } = getNodeSize(rootNode);
+    setPositions(rootNode, -width / 2, -height / 2, config);
+  },
+  getConnectionPath: (sourceNode, targetNode) =>
+    generateIndentConnectionPath(sourceNode, targetNode, getIndent(DEFAULT_LAYOUT_CONFIG))
+};
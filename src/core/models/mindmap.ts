@@ -1,4 +1,4 @@
-import { MindNode, NodeStyle } from '@/types/mindmap';
+import { MindNode, NodeStyle, ConnectionStyle } from '@/types/mindmap';
 import { v4 as uuidv4 } from 'uuid';
 
 // 默认节点样式
@@ -24,6 +24,14 @@ export const ROOT_NODE_STYLE: NodeStyle = {
   fontWeight: 'bold',
 };
 
+// 默认连线样式
+export const DEFAULT_CONNECTION_STYLE: ConnectionStyle = {
+  lineColor: '#c0c0c0',
+  lineWidth: 1.5,
+  lineStyle: 'orthogonalRounded',
+  lineType: 'solid',
+};
+
 // 创建新节点
 export const createNode = (
   content: string = '新节点',
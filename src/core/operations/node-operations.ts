@@ -1,5 +1,6 @@
-import { MindNode } from '@/types/mindmap';
-import { createNode } from '@/core/models/mindmap';
+import { MindNode, NodeComment, OutlineItem } from '@/types/mindmap';
+import { createNode, flattenNodes } from '@/core/models/mindmap';
+import { balanceRootChildren } from '@/core/layouts/mindmap-layout';
 
 export class NodeOperations {
   private undoStack: MindNode[][] = [];
@@ -119,6 +120,34 @@ export const addChildNode = (
   return updatedNodes;
 };
 
+// 批量添加子树（一次性创建多层子节点）
+// 复制整棵树后再修改，避免影响撤销栈中保存的旧节点
+export const addChildNodes = (
+  nodes: MindNode[],
+  parentId: string,
+  items: OutlineItem[]
+): MindNode[] => {
+  const rootNode = nodes.find(node => node.level === 0);
+  if (!rootNode || items.length === 0) return nodes;
+
+  const clonedRoot = structuredClone(rootNode);
+  const parentNode = findNodeById([clonedRoot], parentId);
+  if (!parentNode) return nodes;
+
+  const appendItems = (parent: MindNode, children: OutlineItem[]) => {
+    children.forEach(item => {
+      const newNode = createNode(item.content, parent.id, parent.level + 1, parent.direction || 'right');
+      parent.children.push(newNode);
+      appendItems(newNode, item.children);
+    });
+  };
+
+  appendItems(parentNode, items);
+  parentNode.expanded = true; // 确保父节点展开
+
+  return flattenNodes(clonedRoot);
+};
+
 // 添加一个调试用的节点，直接添加到根节点下
 export const addDebugNode = (nodes: MindNode[]): MindNode[] => {
   // 创建一个新的节点数组，避免直接修改原数组
@@ -283,3 +312,80 @@ export const toggleNodeExpandedFunc = (
   
   return updatedNodes;
 };
+
+// 更新节点评论，update根据原评论列表返回新的列表
+// 复制整棵树后再修改，避免影响撤销栈中保存的旧节点
+export const updateNodeCommentsFunc = (
+  nodes: MindNode[],
+  nodeId: string,
+  update: (comments: NodeComment[]) => NodeComment[]
+): MindNode[] => {
+  const rootNode = nodes.find(node => node.level === 0);
+  if (!rootNode) return nodes;
+
+  const clonedRoot = structuredClone(rootNode);
+  const node = findNodeById([clonedRoot], nodeId);
+  if (!node) return nodes;
+
+  const comments = update(node.comments || []);
+  if (comments.length > 0) {
+    node.comments = comments;
+  } else {
+    delete node.comments;
+  }
+
+  return flattenNodes(clonedRoot);
+};
+
+// 展开节点的所有祖先节点，使节点可见
+export const expandAncestorsFunc = (
+  nodes: MindNode[],
+  nodeId: string
+): MindNode[] => {
+  const rootNode = nodes.find(node => node.level === 0);
+  if (!rootNode) return nodes;
+
+  const clonedRoot = structuredClone(rootNode);
+  const nodeMap = new Map(flattenNodes(clonedRoot).map(node => [node.id, node]));
+  let parentId = nodeMap.get(nodeId)?.parent;
+  while (parentId) {
+    const parent = nodeMap.get(parentId);
+    if (!parent) break;
+    parent.expanded = true;
+    parentId = parent.parent;
+  }
+
+  return flattenNodes(clonedRoot);
+};
+
+// 自动平衡根节点的左右分支
+export const balanceNodesFunc = (nodes: MindNode[]): MindNode[] => {
+  const rootNode = nodes.find(node => node.level === 0);
+  if (!rootNode) return nodes;
+
+  const clonedRoot = structuredClone(rootNode);
+  balanceRootChildren(clonedRoot);
+  return flattenNodes(clonedRoot);
+};
+
+// 设置或清除节点日期，日期会影响时间轴布局，因此复制整棵树后再修改
+export const updateNodeDateFunc = (
+  nodes: MindNode[],
+  nodeId: string,
+  date?: string
+): MindNode[] => {
+  const rootNode = nodes.find(node => node.level === 0);
+  if (!rootNode) return nodes;
+
+  const clonedRoot = structuredClone(rootNode);
+  const node = findNodeById([clonedRoot], nodeId);
+  if (!node) return nodes;
+
+  if (date) {
+    node.date = date;
+  } else {
+    delete node.date;
+  }
+
+  return flattenNodes(clonedRoot);
+};
@@ -0,0 +1,48 @@
+import { DBMigration, DB_MIGRATIONS, runMigrations, getLatestVersion } from './migrations';
+
+// IndexedDB数据库名（版本由迁移列表决定）
+export const DB_NAME = 'mindmapDB';
+
+// 把IndexedDB请求转换为Promise，请求成功时返回结果
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 打开IndexedDB连接，版本低于迁移列表时在升级事务中执行迁移
+export const openDatabase = (name: string, migrations: DBMigration[] = DB_MIGRATIONS): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const version = getLatestVersion(migrations);
+    const request = window.indexedDB.open(name, version);
+    
+    request.onerror = (event) => {
+      console.error('IndexedDB打开失败:', event);
+      reject(new Error('无法打开IndexedDB数据库'));
+    };
+    
+    request.onblocked = () => {
+      console.warn('数据库升级被其他标签页中打开的旧版本连接阻塞');
+    };
+    
+    request.onsuccess = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      // 其他标签页需要升级数据库时关闭当前连接，避免阻塞升级
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      try {
+        runMigrations(db, transaction, event.oldVersion, event.newVersion ?? version, migrations);
+      } catch (error) {
+        // 迁移失败时中止升级，数据库保持原版本和原数据
+        console.error('数据库迁移失败:', error);
+        transaction.abort();
+      }
+    };
+  });
+};
@@ -0,0 +1,37 @@
+import { openDatabase, requestToPromise, DB_NAME } from './database';
+import { FILE_HANDLES_STORE } from './migrations';
+import { MindMapFileFormat } from './file-system';
+
+/**
+ * 思维导图关联的本地文件
+ * 文件句柄可以保存在IndexedDB中，重新打开页面后仍可写回同一个文件（需要用户再次授权）
+ */
+
+export interface LinkedFileRecord {
+  mapId: string;
+  name: string;                         // 文件名
+  format: MindMapFileFormat;
+  handle: FileSystemFileHandle | null;  // 不支持File System Access API时为空，保存时改为下载
+  savedContent: string;                 // 最近一次打开或保存时的思维导图内容，用于判断是否有未保存的修改
+}
+
+// 保存关联文件
+export const saveLinkedFileToDB = async (record: LinkedFileRecord): Promise<void> => {
+  const db = await openDatabase(DB_NAME);
+  const store = db.transaction(FILE_HANDLES_STORE, 'readwrite').objectStore(FILE_HANDLES_STORE);
+  await requestToPromise(store.put(record));
+};
+
+// 读取思维导图关联的文件
+export const loadLinkedFileFromDB = async (mapId: string): Promise<LinkedFileRecord | null> => {
+  const db = await openDatabase(DB_NAME);
+  const store = db.transaction(FILE_HANDLES_STORE, 'readonly').objectStore(FILE_HANDLES_STORE);
+  return (await requestToPromise(store.get(mapId))) || null;
+};
+
+// 删除思维导图关联的文件
+export const deleteLinkedFileFromDB = async (mapId: string): Promise<void> => {
+  const db = await openDatabase(DB_NAME);
+  const store = db.transaction(FILE_HANDLES_STORE, 'readwrite').objectStore(FILE_HANDLES_STORE);
+  await requestToPromise(store.delete(mapId));
+};
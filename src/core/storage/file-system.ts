@@ -0,0 +1,122 @@
+/**
+ * 本地文件的打开与保存
+ * 支持File System Access API的浏览器通过文件句柄直接读写磁盘上的文件，
+ * 其他浏览器退回到文件选择框和下载链接
+ */
+
+// 可以直接打开和保存的文件格式
+export type MindMapFileFormat = 'json' | 'xmind';
+
+// File System Access API中尚未进入TypeScript DOM类型的部分
+interface FilePickerAcceptType {
+  description?: string;
+  accept: Record<string, string[]>;
+}
+
+interface FilePickerOptions {
+  types?: FilePickerAcceptType[];
+  excludeAcceptAllOption?: boolean;
+  suggestedName?: string;
+  id?: string;
+}
+
+type FileSystemPermissionMode = 'read' | 'readwrite';
+
+declare global {
+  interface Window {
+    showOpenFilePicker?: (options?: FilePickerOptions & { multiple?: boolean }) => Promise<FileSystemFileHandle[]>;
+    showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle>;
+  }
+
+  interface FileSystemHandle {
+    queryPermission?: (descriptor: { mode: FileSystemPermissionMode }) => Promise<PermissionState>;
+    requestPermission?: (descriptor: { mode: FileSystemPermissionMode }) => Promise<PermissionState>;
+  }
+}
+
+// 各格式在文件选择器中的类型说明
+const PICKER_TYPES: Record<MindMapFileFormat, FilePickerAcceptType> = {
+  json: { description: 'WebXmind JSON 文件', accept: { 'application/json': ['.json'] } },
+  xmind: { description: 'XMind 文件', accept: { 'application/vnd.xmind.workbook': ['.xmind'] } }
+};
+
+// 文件选择器记住上次打开的目录
+const PICKER_ID = 'webxmind-files';
+
+// 浏览器是否支持直接读写本地文件
+export const isFileSystemAccessSupported = (): boolean => {
+  return typeof window !== 'undefined' &&
+    typeof window.showOpenFilePicker === 'function' &&
+    typeof window.showSaveFilePicker === 'function';
+};
+
+// 根据文件名判断格式，不支持的格式返回null
+export const getFileFormat = (fileName: string): MindMapFileFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'json';
+  if (extension === 'xmind') return 'xmind';
+  return null;
+};
+
+// 把文件名的扩展名替换为指定格式
+export const withFileExtension = (fileName: string, format: MindMapFileFormat): string => {
+  return `${fileName.replace(/\.(json|xmind)$/i, '')}.${format}`;
+};
+
+// 用户取消选择文件时浏览器抛出AbortError
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+// 选择要打开的文件，用户取消时返回null
+export const pickFileToOpen = async (): Promise<FileSystemFileHandle | null> => {
+  try {
+    const [handle] = await window.showOpenFilePicker!({
+      id: PICKER_ID,
+      types: [
+        { description: '思维导图文件', accept: { 'application/json': ['.json'], 'application/vnd.xmind.workbook': ['.xmind'] } },
+        PICKER_TYPES.json,
+        PICKER_TYPES.xmind
+      ],
+      excludeAcceptAllOption: true
+    });
+    return handle || null;
+  } catch (error) {
+    if (isAbortError(error)) return null;
+    throw error;
+  }
+};
+
+// 选择保存位置，用户取消时返回null
+export const pickFileToSave = async (suggestedName: string, format: MindMapFileFormat): Promise<FileSystemFileHandle | null> => {
+  try {
+    return await window.showSaveFilePicker!({
+      id: PICKER_ID,
+      suggestedName: withFileExtension(suggestedName, format),
+      types: [PICKER_TYPES[format], PICKER_TYPES[format === 'json' ? 'xmind' : 'json']],
+      excludeAcceptAllOption: true
+    });
+  } catch (error) {
+    if (isAbortError(error)) return null;
+    throw error;
+  }
+};
+
+// 确认对文件的读写权限，页面重新加载后恢复的句柄需要用户再次授权
+export const ensureWritePermission = async (handle: FileSystemFileHandle): Promise<boolean> => {
+  if (!handle.queryPermission || !handle.requestPermission) return true;
+  if (await handle.queryPermission({ mode: 'readwrite' }) === 'granted') return true;
+  return await handle.requestPermission({ mode: 'readwrite' }) === 'granted';
+};
+
+// 写入文件内容
+export const writeFileHandle = async (handle: FileSystemFileHandle, content: Blob): Promise<void> => {
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(content);
+    await writable.close();
+  } catch (error) {
+    await writable.abort();
+    throw error;
+  }
+};
@@ -0,0 +1,191 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openDatabase, requestToPromise } from './database';
+import {
+  DBMigration,
+  DB_MIGRATIONS,
+  STORE_NAME,
+  TEMPLATES_STORE,
+  SNAPSHOTS_STORE,
+  FILE_HANDLES_STORE,
+  CURRENT_MAP_KEY,
+  runMigrations,
+  getLatestVersion,
+  ensureObjectStore,
+  ensureIndex,
+  transformRecords
+} from './migrations';
+
+const DB_TEST_NAME = 'migrationTestDB';
+
+// 读取存储中的全部记录
+const getAllRecords = (db: IDBDatabase, storeName: string) => {
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+// 直接打开指定版本的数据库，模拟旧版本应用创建的数据
+const openRawDatabase = (
+  version: number,
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_TEST_NAME, version);
+  request.onupgradeneeded = () => upgrade(request.result, request.transaction!);
+  return requestToPromise(request);
+};
+
+beforeEach(() => {
+  // 每个用例使用全新的IndexedDB
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.stubGlobal('window', globalThis);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('runMigrations', () => {
+  const createMigrations = (calls: number[]): DBMigration[] => [3, 1, 2].map(version => ({
+    version,
+    description: `v${version}`,
+    migrate: () => calls.push(version)
+  }));
+  const db = {} as IDBDatabase;
+  const transaction = {} as IDBTransaction;
+
+  it('按版本顺序执行所有迁移', () => {
+    const calls: number[] = [];
+    runMigrations(db, transaction, 0, 3, createMigrations(calls));
+    expect(calls).toEqual([1, 2, 3]);
+  });
+
+  it('只执行高于旧版本且不超过新版本的迁移', () => {
+    const calls: number[] = [];
+    runMigrations(db, transaction, 1, 2, createMigrations(calls));
+    expect(calls).toEqual([2]);
+  });
+
+  it('数据库版本为迁移列表中的最大版本', () => {
+    expect(getLatestVersion(createMigrations([]))).toBe(3);
+    expect(getLatestVersion([])).toBe(1);
+    expect(getLatestVersion()).toBe(DB_MIGRATIONS.length);
+  });
+});
+
+describe('迁移工具函数', () => {
+  it('ensureObjectStore和ensureIndex重复执行时跳过已存在的存储和索引', async () => {
+    const migrate = (db: IDBDatabase, transaction: IDBTransaction) => {
+      ensureObjectStore(db, 'items', { keyPath: 'id' });
+      ensureObjectStore(db, 'items', { keyPath: 'id' });
+      ensureIndex(transaction, 'items', 'byName', 'name', { unique: true });
+      ensureIndex(transaction, 'items', 'byName', 'name', { unique: true });
+    };
+    const db = await openDatabase(DB_TEST_NAME, [{ version: 1, description: '创建存储', migrate }]);
+
+    expect(Array.from(db.objectStoreNames)).toEqual(['items']);
+    const store = db.transaction('items', 'readonly').objectStore('items');
+    expect(store.keyPath).toBe('id');
+    expect(Array.from(store.indexNames)).toEqual(['byName']);
+    expect(store.index('byName').unique).toBe(true);
+    db.close();
+  });
+
+  it('transformRecords写回、删除或保留每条记录', async () => {
+    const oldDb = await openRawDatabase(1, db => {
+      const store = db.createObjectStore('items', { keyPath: 'id' });
+      store.add({ id: 'a', value: 1 });
+      store.add({ id: 'b', value: 2 });
+      store.add({ id: 'c', value: 3 });
+    });
+    oldDb.close();
+
+    const migrations: DBMigration[] = [
+      { version: 1, description: '创建存储', migrate: db => ensureObjectStore(db, 'items', { keyPath: 'id' }) },
+      {
+        version: 2,
+        description: '转换记录',
+        migrate: (_db, transaction) => {
+          transformRecords<{ id: string; value: number }>(transaction, 'items', record => {
+            if (record.id === 'a') return { ...record, value: record.value * 10 };
+            if (record.id === 'b') return null;
+            return undefined;
+          });
+        }
+      }
+    ];
+    const db = await openDatabase(DB_TEST_NAME, migrations);
+
+    expect(db.version).toBe(2);
+    expect(await getAllRecords(db, 'items')).toEqual([
+      { id: 'a', value: 10 },
+      { id: 'c', value: 3 }
+    ]);
+    db.close();
+  });
+
+  it('迁移失败时中止升级，保留原版本和原数据', async () => {
+    const oldDb = await openRawDatabase(1, db => {
+      db.createObjectStore('items', { keyPath: 'id' }).add({ id: 'a' });
+    });
+    oldDb.close();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const migrations: DBMigration[] = [
+      { version: 1, description: '创建存储', migrate: db => ensureObjectStore(db, 'items', { keyPath: 'id' }) },
+      {
+        version: 2,
+        description: '失败的迁移',
+        migrate: (db) => {
+          ensureObjectStore(db, 'other');
+          throw new Error('迁移失败');
+        }
+      }
+    ];
+    await expect(openDatabase(DB_TEST_NAME, migrations)).rejects.toThrow('无法打开IndexedDB数据库');
+
+    const db = await openRawDatabase(1, () => {});
+    expect(db.version).toBe(1);
+    expect(Array.from(db.objectStoreNames)).toEqual(['items']);
+    expect(await getAllRecords(db, 'items')).toEqual([{ id: 'a' }]);
+    db.close();
+  });
+});
+
+describe('从v1升级到最新版本', () => {
+  it('创建新增的存储和索引，并为已有的思维导图记录补充修订号', async () => {
+    // v1：只有思维导图和模板存储
+    const oldDb = await openRawDatabase(1, db => {
+      const maps = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      maps.add({ id: 'map-1', name: '旧导图', nodes: [] });
+      maps.add({ id: 'map-2', name: '已有修订号', nodes: [], revision: 5 });
+      maps.add({ id: CURRENT_MAP_KEY, mapId: 'map-1' });
+      db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' }).add({ id: 'tpl-1', name: '模板' });
+    });
+    oldDb.close();
+
+    const db = await openDatabase(DB_TEST_NAME);
+
+    expect(db.version).toBe(getLatestVersion());
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(
+      [FILE_HANDLES_STORE, STORE_NAME, SNAPSHOTS_STORE, TEMPLATES_STORE].sort()
+    );
+
+    const snapshots = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE);
+    expect(snapshots.keyPath).toBe('id');
+    expect(Array.from(snapshots.indexNames)).toEqual(['mapId']);
+    expect(snapshots.index('mapId').keyPath).toBe('mapId');
+
+    const fileHandles = db.transaction(FILE_HANDLES_STORE, 'readonly').objectStore(FILE_HANDLES_STORE);
+    expect(fileHandles.keyPath).toBe('mapId');
+
+    expect(await getAllRecords(db, STORE_NAME)).toEqual([
+      { id: CURRENT_MAP_KEY, mapId: 'map-1' },
+      { id: 'map-1', name: '旧导图', nodes: [], revision: 0 },
+      { id: 'map-2', name: '已有修订号', nodes: [], revision: 5 }
+    ]);
+    expect(await getAllRecords(db, TEMPLATES_STORE)).toEqual([{ id: 'tpl-1', name: '模板' }]);
+    db.close();
+  });
+});
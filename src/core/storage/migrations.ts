@@ -0,0 +1,133 @@
+/**
+ * IndexedDB 结构迁移
+ * 每个迁移对应一个数据库版本，在onupgradeneeded的versionchange事务中按版本顺序执行，
+ * 可以创建存储和索引，也可以通过游标转换已保存的记录
+ *
+ * 新增迁移时只需在DB_MIGRATIONS末尾追加一项，数据库版本号随之提升；已发布的迁移不要修改
+ */
+
+// 思维导图存储（同时保存当前思维导图ID记录）
+export const STORE_NAME = 'mindmaps';
+// 模板存储
+export const TEMPLATES_STORE = 'templates';
+// 版本历史快照存储
+export const SNAPSHOTS_STORE = 'snapshots';
+// 思维导图关联的本地文件存储
+export const FILE_HANDLES_STORE = 'fileHandles';
+// 当前思维导图ID记录的键
+export const CURRENT_MAP_KEY = 'currentMap';
+
+// 单个版本的迁移
+export interface DBMigration {
+  version: number;
+  description: string;
+  // 在versionchange事务中同步发起操作，异步请求由事务保证在升级完成前执行完毕
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// 创建存储（已存在时跳过）
+export const ensureObjectStore = (
+  db: IDBDatabase,
+  name: string,
+  options?: IDBObjectStoreParameters
+): void => {
+  if (!db.objectStoreNames.contains(name)) {
+    db.createObjectStore(name, options);
+    console.log(`创建存储: ${name}`);
+  }
+};
+
+// 创建索引（已存在时跳过）
+export const ensureIndex = (
+  transaction: IDBTransaction,
+  storeName: string,
+  indexName: string,
+  keyPath: string | string[],
+  options?: IDBIndexParameters
+): void => {
+  const store = transaction.objectStore(storeName);
+  if (!store.indexNames.contains(indexName)) {
+    store.createIndex(indexName, keyPath, options);
+    console.log(`创建索引: ${storeName}.${indexName}`);
+  }
+};
+
+// 逐条转换存储中的记录：返回新记录则写回，返回null则删除，返回undefined则保持不变
+export const transformRecords = <T = unknown>(
+  transaction: IDBTransaction,
+  storeName: string,
+  transform: (record: T) => T | null | undefined
+): void => {
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const result = transform(cursor.value as T);
+    if (result === null) {
+      cursor.delete();
+    } else if (result !== undefined) {
+      cursor.update(result);
+    }
+    cursor.continue();
+  };
+};
+
+// 按版本排列的迁移列表
+export const DB_MIGRATIONS: DBMigration[] = [
+  {
+    version: 1,
+    description: '创建思维导图和模板存储',
+    migrate: (db) => {
+      ensureObjectStore(db, STORE_NAME, { keyPath: 'id' });
+      ensureObjectStore(db, TEMPLATES_STORE, { keyPath: 'id' });
+    }
+  },
+  {
+    version: 2,
+    description: '创建版本历史快照存储',
+    migrate: (db, transaction) => {
+      ensureObjectStore(db, SNAPSHOTS_STORE, { keyPath: 'id' });
+      ensureIndex(transaction, SNAPSHOTS_STORE, 'mapId', 'mapId');
+    }
+  },
+  {
+    version: 3,
+    description: '为思维导图记录增加修订号，用于检测多个标签页的并发保存',
+    migrate: (_db, transaction) => {
+      transformRecords<{ id: string; nodes?: unknown; revision?: number }>(transaction, STORE_NAME, record => {
+        if (record.id === CURRENT_MAP_KEY || !Array.isArray(record.nodes) || record.revision !== undefined) return undefined;
+        return { ...record, revision: 0 };
+      });
+    }
+  },
+  {
+    version: 4,
+    description: '创建思维导图关联的本地文件存储',
+    migrate: (db) => {
+      ensureObjectStore(db, FILE_HANDLES_STORE, { keyPath: 'mapId' });
+    }
+  }
+];
+
+// 执行从oldVersion升级到newVersion所需的迁移
+export const runMigrations = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: DBMigration[] = DB_MIGRATIONS
+): void => {
+  migrations
+    .filter(migration => migration.version > oldVersion && migration.version <= newVersion)
+    .sort((a, b) => a.version - b.version)
+    .forEach(migration => {
+      console.log(`执行数据库迁移 v${migration.version}: ${migration.description}`);
+      migration.migrate(db, transaction);
+    });
+};
+
+// 迁移列表对应的数据库版本
+export const getLatestVersion = (migrations: DBMigration[] = DB_MIGRATIONS): number => {
+  return migrations.reduce((version, migration) => Math.max(version, migration.version), 1);
+};
@@ -0,0 +1,49 @@
+import { MindMapSnapshot } from '@/types/mindmap';
+import { openDatabase, requestToPromise, DB_NAME } from './database';
+import { SNAPSHOTS_STORE } from './migrations';
+
+/**
+ * 版本历史快照的IndexedDB读写
+ */
+
+// 保存快照
+export const saveSnapshotToDB = async (snapshot: MindMapSnapshot): Promise<void> => {
+  const db = await openDatabase(DB_NAME);
+  const store = db.transaction(SNAPSHOTS_STORE, 'readwrite').objectStore(SNAPSHOTS_STORE);
+  await requestToPromise(store.put(snapshot));
+};
+
+// 读取单个快照
+export const loadSnapshotFromDB = async (id: string): Promise<MindMapSnapshot | null> => {
+  const db = await openDatabase(DB_NAME);
+  const store = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE);
+  return (await requestToPromise(store.get(id))) || null;
+};
+
+// 读取思维导图的全部快照，按创建时间从新到旧排列
+export const loadSnapshotsFromDB = async (mapId: string): Promise<MindMapSnapshot[]> => {
+  const db = await openDatabase(DB_NAME);
+  const index = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE).index('mapId');
+  const snapshots: MindMapSnapshot[] = await requestToPromise(index.getAll(mapId));
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// 删除快照
+export const deleteSnapshotsFromDB = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase(DB_NAME);
+  const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const store = transaction.objectStore(SNAPSHOTS_STORE);
+  ids.forEach(id => store.delete(id));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 只保留最近的若干个自动快照，命名版本不受影响
+export const pruneAutoSnapshots = async (mapId: string, maxCount: number): Promise<void> => {
+  const snapshots = await loadSnapshotsFromDB(mapId);
+  const expired = snapshots.filter(snapshot => snapshot.auto).slice(maxCount);
+  await deleteSnapshotsFromDB(expired.map(snapshot => snapshot.id));
+};
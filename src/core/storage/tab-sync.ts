@@ -0,0 +1,31 @@
+/**
+ * 标签页之间的保存通知
+ * 思维导图保存到IndexedDB后通过BroadcastChannel通知其他标签页，打开同一思维导图的标签页据此重新加载或提示冲突
+ */
+
+// 保存通知
+export interface TabSyncMessage {
+  type: 'saved';
+  mapId: string;
+  revision: number;   // 保存后的修订号
+}
+
+export interface TabSync {
+  post: (message: TabSyncMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'webxmind-tab-sync';
+
+// 创建标签页同步通道，浏览器不支持BroadcastChannel时返回null
+export const createTabSync = (onMessage: (message: TabSyncMessage) => void): TabSync | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabSyncMessage>) => onMessage(event.data);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close()
+  };
+};
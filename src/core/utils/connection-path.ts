@@ -0,0 +1,233 @@
+import { MindNode, NodePosition } from '@/types/mindmap';
+
+// 生成父子节点之间的连接线路径（水平方向），默认按子节点的方向连接到左侧或右侧
+export const generateConnectionPath = (
+  sourceNode: MindNode,
+  targetNode: MindNode,
+  direction: 'left' | 'right' = targetNode.direction || 'right'
+): string => {
+  // 获取节点位置
+  const sourceX = sourceNode.position?.x || 0;
+  const sourceY = sourceNode.position?.y || 0;
+  const targetX = targetNode.position?.x || 0;
+  const targetY = targetNode.position?.y || 0;
+
+  // 节点尺寸 - 用于计算连接点
+  const sourceWidth = sourceNode.style.width || 120;
+  const targetWidth = targetNode.style.width || 120;
+
+  // 计算实际连接点
+  let sourcePointX: number, targetPointX: number;
+
+  if (direction === 'right') {
+    // 右侧连接 - 源节点右边，目标节点左边
+    sourcePointX = sourceX + sourceWidth / 2;
+    targetPointX = targetX - targetWidth / 2;
+  } else {
+    // 左侧连接 - 源节点左边，目标节点右边
+    sourcePointX = sourceX - sourceWidth / 2;
+    targetPointX = targetX + targetWidth / 2;
+  }
+
+  // 使用三段式直角连线，强制使用节点本身的Y坐标
+  // 这确保连线始终从节点的中心点出发，而不受视觉位置影响
+  const turnX = (sourcePointX + targetPointX) / 2;
+
+  return `
+    M ${sourcePointX} ${sourceY}
+    H ${turnX}
+    V ${targetY}
+    H ${targetPointX}
+  `;
+};
+
+// 生成垂直方向的连接线路径（组织结构图），从父节点的底边（向上时为顶边）连到子节点
+export const generateVerticalConnectionPath = (
+  sourceNode: MindNode,
+  targetNode: MindNode,
+  orientation: 'down' | 'up' = 'down'
+): string => {
+  const sourceX = sourceNode.position?.x || 0;
+  const sourceY = sourceNode.position?.y || 0;
+  const targetX = targetNode.position?.x || 0;
+  const targetY = targetNode.position?.y || 0;
+  const sign = orientation === 'down' ? 1 : -1;
+
+  const sourcePointY = sourceY + sign * (sourceNode.style.height || 40) / 2;
+  const targetPointY = targetY - sign * (targetNode.style.height || 40) / 2;
+  const turnY = (sourcePointY + targetPointY) / 2;
+
+  return `
+    M ${sourceX} ${sourcePointY}
+    V ${turnY}
+    H ${targetX}
+    V ${targetPointY}
+  `;
+};
+
+// 生成缩进树的连接线路径：从父节点底边（向上时为顶边）靠左的位置出发，再水平连到子节点左边
+export const generateIndentConnectionPath = (
+  sourceNode: MindNode,
+  targetNode: MindNode,
+  indent: number,
+  orientation: 'down' | 'up' = 'down'
+): string => {
+  const sourceX = sourceNode.position?.x || 0;
+  const sourceY = sourceNode.position?.y || 0;
+  const targetX = targetNode.position?.x || 0;
+  const targetY = targetNode.position?.y || 0;
+  const sign = orientation === 'down' ? 1 : -1;
+
+  const trunkX = sourceX - (sourceNode.style.width || 120) / 2 + indent / 2;
+  const sourcePointY = sourceY + sign * (sourceNode.style.height || 40) / 2;
+  const targetPointX = targetX - (targetNode.style.width || 120) / 2;
+
+  return `
+    M ${trunkX} ${sourcePointY}
+    V ${targetY}
+    H ${targetPointX}
+  `;
+};
+
+// 生成时间轴的连接线路径：假设时间轴为y=0的水平线，从根节点右边沿时间轴到节点的刻度，再垂直连到节点靠近时间轴的一边
+export const generateTimelineConnectionPath = (rootNode: MindNode, targetNode: MindNode): string => {
+  const rootX = rootNode.position?.x || 0;
+  const targetX = targetNode.position?.x || 0;
+  const targetY = targetNode.position?.y || 0;
+
+  const sourcePointX = rootX + (rootNode.style.width || 120) / 2;
+  const targetPointY = targetY - Math.sign(targetY) * (targetNode.style.height || 40) / 2;
+
+  return `
+    M ${sourcePointX} 0
+    H ${targetX}
+    V ${targetPointY}
+  `;
+};
+
+// 生成放射图的连接线路径：以原点为圆心，从父节点沿径向出发、沿径向进入子节点的曲线
+export const generateRadialConnectionPath = (sourceNode: MindNode, targetNode: MindNode): string => {
+  const sourceX = sourceNode.position?.x || 0;
+  const sourceY = sourceNode.position?.y || 0;
+  const targetX = targetNode.position?.x || 0;
+  const targetY = targetNode.position?.y || 0;
+
+  const sourceRadius = Math.hypot(sourceX, sourceY);
+  const targetRadius = Math.hypot(targetX, targetY);
+  const middleRadius = (sourceRadius + targetRadius) / 2;
+  const sourceAngle = Math.atan2(sourceY, sourceX);
+  const targetAngle = Math.atan2(targetY, targetX);
+
+  // 根节点位于圆心，连线直接从圆心出发
+  const control1 = sourceRadius === 0
+    ? { x: sourceX, y: sourceY }
+    : { x: middleRadius * Math.cos(sourceAngle), y: middleRadius * Math.sin(sourceAngle) };
+  const control2 = { x: middleRadius * Math.cos(targetAngle), y: middleRadius * Math.sin(targetAngle) };
+
+  return `
+    M ${sourceX} ${sourceY}
+    C ${control1.x} ${control1.y} ${control2.x} ${control2.y} ${targetX} ${targetY}
+  `;
+};
+
+// 鱼骨图中鱼骨末端（大骨节点靠近鱼脊一侧的边的中点），鱼脊位于y=0
+const getFishboneEnd = (boneNode: MindNode): NodePosition => {
+  const x = boneNode.position?.x || 0;
+  const y = boneNode.position?.y || 0;
+  return { x, y: y - Math.sign(y) * (boneNode.style.height || 40) / 2 };
+};
+
+// 生成鱼骨图中鱼头到大骨的连接线：沿鱼脊向左，再沿斜向的大骨连到大骨节点
+// slope为大骨每远离鱼脊一个单位时向左偏移的距离
+export const generateFishboneBonePath = (headNode: MindNode, boneNode: MindNode, slope: number): string => {
+  const headX = headNode.position?.x || 0;
+  const headY = headNode.position?.y || 0;
+  const end = getFishboneEnd(boneNode);
+  const attachX = end.x + Math.abs(end.y - headY) * slope;
+
+  return `
+    M ${headX - (headNode.style.width || 120) / 2} ${headY}
+    H ${attachX}
+    L ${end.x} ${end.y}
+  `;
+};
+
+// 生成鱼骨图中大骨到中骨的连接线：从大骨上与中骨同一高度的位置水平连到中骨节点右边
+export const generateFishboneBranchPath = (boneNode: MindNode, branchNode: MindNode, slope: number): string => {
+  const end = getFishboneEnd(boneNode);
+  const branchX = branchNode.position?.x || 0;
+  const branchY = branchNode.position?.y || 0;
+  const boneX = end.x + (Math.abs(end.y) - Math.abs(branchY)) * slope;
+
+  return `
+    M ${boneX} ${branchY}
+    H ${branchX + (branchNode.style.width || 120) / 2}
+  `;
+};
+
+// 计算关系连线的控制点（贝塞尔曲线的控制点，同时也是标签位置）
+export const getRelationshipControlPoint = (sourceNode: MindNode, targetNode: MindNode): NodePosition => {
+  const sourceX = sourceNode.position?.x || 0;
+  const sourceY = sourceNode.position?.y || 0;
+  const targetX = targetNode.position?.x || 0;
+  const targetY = targetNode.position?.y || 0;
+
+  return {
+    x: (sourceX + targetX) / 2,
+    y: (sourceY + targetY) / 2 - 30 // 稍微上移，使曲线显得自然
+  };
+};
+
+// 生成关系连线路径数据
+export const generateRelationshipPath = (
+  sourceX: number,
+  sourceY: number,
+  targetX: number,
+  targetY: number,
+  controlX: number,
+  controlY: number,
+  lineStyle: string = 'curved'
+) => {
+  // 根据线条样式生成不同的路径
+  switch (lineStyle) {
+    case 'straight':
+      return `M ${sourceX} ${sourceY} L ${targetX} ${targetY}`;
+
+    case 'orthogonal': {
+      const midX = (sourceX + targetX) / 2;
+      return `M ${sourceX} ${sourceY} H ${midX} V ${targetY} H ${targetX}`;
+    }
+
+    case 'orthogonalRounded': {
+      const midX = (sourceX + targetX) / 2;
+      const radius = 10; // 圆角半径
+
+      // 如果垂直距离很小，直接使用水平线连接
+      if (Math.abs(sourceY - targetY) < radius * 2) {
+        return `M ${sourceX} ${sourceY} H ${targetX}`;
+      }
+
+      // 垂直方向标识 (上或下)
+      const verticalDirection = sourceY > targetY ? -1 : 1;
+
+      // 计算拐角点坐标
+      const corner1Y = sourceY;
+      const corner1X = midX;
+      const corner2Y = targetY;
+      const corner2X = midX;
+
+      return `
+        M ${sourceX} ${sourceY}
+        H ${corner1X - radius * Math.sign(corner1X - sourceX)}
+        A ${radius} ${radius} 0 0 ${verticalDirection > 0 ? 1 : 0} ${corner1X} ${corner1Y + radius * verticalDirection}
+        V ${corner2Y - radius * verticalDirection}
+        A ${radius} ${radius} 0 0 ${midX < targetX ? 1 : 0} ${corner2X + radius * Math.sign(targetX - corner2X)} ${corner2Y}
+        H ${targetX}
+      `;
+    }
+
+    case 'curved':
+    default:
+      return `M ${sourceX} ${sourceY} Q ${controlX} ${controlY} ${targetX} ${targetY}`;
+  }
+};
@@ -0,0 +1,14 @@
+// 导出文件名（带日期）
+export const getExportFileName = (extension: string) => `mindmap-export-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+// 下载Blob为文件
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  
+  // 释放URL对象
+  URL.revokeObjectURL(url);
+};
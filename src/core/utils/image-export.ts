@@ -0,0 +1,79 @@
+// 浏览器画布的最大边长和最大面积（超出时按比例降低倍率）
+const MAX_CANVAS_SIZE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 4;
+
+// 加载图片
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('图片加载失败'));
+    image.src = src;
+  });
+};
+
+// 计算不超过画布限制的实际倍率
+const getSafeScale = (width: number, height: number, scale: number): number => {
+  const sizeLimit = MAX_CANVAS_SIZE / Math.max(width, height, 1);
+  const areaLimit = Math.sqrt(MAX_CANVAS_AREA / Math.max(width * height, 1));
+  return Math.min(scale, sizeLimit, areaLimit);
+};
+
+// 将SVG图片按指定倍数绘制到画布上，可指定底色（JPEG不支持透明）
+export const renderSVGToCanvas = async (
+  svgDataUrl: string,
+  scale: number = 2,
+  backgroundColor?: string
+): Promise<HTMLCanvasElement> => {
+  const image = await loadImage(svgDataUrl);
+  const safeScale = getSafeScale(image.width, image.height, scale);
+  if (safeScale < scale) {
+    console.warn(`导出尺寸超出画布限制，倍率已从${scale}降低为${safeScale.toFixed(2)}`);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(image.width * safeScale);
+  canvas.height = Math.ceil(image.height * safeScale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('无法创建画布');
+  }
+  if (backgroundColor) {
+    context.fillStyle = backgroundColor;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.scale(safeScale, safeScale);
+  context.drawImage(image, 0, 0);
+
+  return canvas;
+};
+
+// 将画布转换为Blob
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('图片生成失败'));
+      }
+    }, type, quality);
+  });
+};
+
+// 将任意浏览器可显示的图片按指定尺寸转换为PNG
+export const rasterizeImage = async (src: string, width: number, height: number): Promise<Blob> => {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('无法创建画布');
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return canvasToBlob(canvas, 'image/png');
+};
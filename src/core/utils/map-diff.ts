@@ -0,0 +1,120 @@
+import { MindNode, Relationship, MindMapData } from '@/types/mindmap';
+
+/**
+ * 思维导图版本对比
+ * 按节点ID和关系ID匹配两个版本，区分新增、删除、移动（父节点改变）和修改的内容
+ */
+
+// 节点变化类型，同一节点可能同时被移动和修改
+export type NodeChangeType = 'added' | 'removed' | 'moved' | 'edited';
+
+// 各类变化的画布高亮颜色
+export const DIFF_COLORS: Record<NodeChangeType, string> = {
+  added: '#52c41a',
+  removed: '#f5222d',
+  moved: '#fa8c16',
+  edited: '#1890ff'
+};
+
+// 节点被修改的字段
+export type NodeEditField = 'content' | 'note' | 'style' | 'icon' | 'image';
+
+// 节点变化
+export interface NodeChange {
+  id: string;
+  types: NodeChangeType[];
+  editedFields: NodeEditField[];
+  before?: MindNode;   // 对比基准中的节点（新增节点没有）
+  after?: MindNode;    // 当前版本中的节点（删除节点没有）
+}
+
+// 关系连线变化
+export interface RelationshipChange {
+  id: string;
+  type: 'added' | 'removed' | 'edited';
+  before?: Relationship;
+  after?: Relationship;
+}
+
+// 对比结果
+export interface MindMapDiff {
+  nodes: NodeChange[];
+  relationships: RelationshipChange[];
+  counts: Record<NodeChangeType, number>;
+}
+
+// 比较两个值是否相同（用于样式等简单对象）
+export const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    // 未设置和空字符串视为相同，避免备注清空后被误判为修改
+    return (a ?? '') === (b ?? '');
+  }
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => isSameValue(
+    (a as Record<string, unknown>)[key],
+    (b as Record<string, unknown>)[key]
+  ));
+};
+
+// 找出节点被修改的字段
+const getEditedFields = (before: MindNode, after: MindNode): NodeEditField[] => {
+  const fields: NodeEditField[] = ['content', 'note', 'style', 'icon', 'image'];
+  return fields.filter(field => !isSameValue(before[field], after[field]));
+};
+
+// 对比两个版本，before为对比基准，after为当前版本
+export const diffMindMaps = (
+  before: Pick<MindMapData, 'nodes' | 'relationships'>,
+  after: Pick<MindMapData, 'nodes' | 'relationships'>
+): MindMapDiff => {
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+  const changes: NodeChange[] = [];
+
+  after.nodes.forEach(node => {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      changes.push({ id: node.id, types: ['added'], editedFields: [], after: node });
+      return;
+    }
+
+    const types: NodeChangeType[] = [];
+    if ((previous.parent || null) !== (node.parent || null)) types.push('moved');
+    const editedFields = getEditedFields(previous, node);
+    if (editedFields.length > 0) types.push('edited');
+
+    if (types.length > 0) {
+      changes.push({ id: node.id, types, editedFields, before: previous, after: node });
+    }
+  });
+
+  before.nodes.forEach(node => {
+    if (!afterNodes.has(node.id)) {
+      changes.push({ id: node.id, types: ['removed'], editedFields: [], before: node });
+    }
+  });
+
+  const beforeRelationships = new Map(before.relationships.map(relationship => [relationship.id, relationship]));
+  const afterRelationships = new Map(after.relationships.map(relationship => [relationship.id, relationship]));
+  const relationshipChanges: RelationshipChange[] = [];
+
+  after.relationships.forEach(relationship => {
+    const previous = beforeRelationships.get(relationship.id);
+    if (!previous) {
+      relationshipChanges.push({ id: relationship.id, type: 'added', after: relationship });
+    } else if (!isSameValue(previous, relationship)) {
+      relationshipChanges.push({ id: relationship.id, type: 'edited', before: previous, after: relationship });
+    }
+  });
+  before.relationships.forEach(relationship => {
+    if (!afterRelationships.has(relationship.id)) {
+      relationshipChanges.push({ id: relationship.id, type: 'removed', before: relationship });
+    }
+  });
+
+  const counts: Record<NodeChangeType, number> = { added: 0, removed: 0, moved: 0, edited: 0 };
+  changes.forEach(change => change.types.forEach(type => counts[type]++));
+
+  return { nodes: changes, relationships: relationshipChanges, counts };
+};
@@ -0,0 +1,379 @@
+import { MindMapData, MindMapFile, MindMapFileNode, Relationship, NodeComment, NodeCommentReply } from '@/types/mindmap';
+import { parseMindMapFile, serializeMindMap } from '@/core/converters/json';
+import { isSameValue } from './map-diff';
+
+/**
+ * 思维导图三方合并
+ * 以共同祖先为基准，按节点ID和关系ID逐字段合并两个后代版本：
+ * 只有一方修改的字段直接采用修改后的值，双方改成不同值或一方删除另一方修改时记为冲突，由用户选择采用哪一方
+ * 节点评论按评论ID合并，双方各自添加的评论和回复都会保留，不产生冲突
+ */
+
+// 合并的一方：ours为我的版本，theirs为对方的版本
+export type MergeSide = 'ours' | 'theirs';
+
+// 参与合并的节点字段，展开状态和方向属于视图状态，双方不同时直接采用我的版本
+const NODE_FIELDS = ['content', 'note', 'style', 'icon', 'image', 'parent', 'meta', 'refId', 'isReference', 'comments', 'date'] as const;
+const NODE_VIEW_FIELDS = ['expanded', 'direction'] as const;
+const RELATIONSHIP_FIELDS = ['sourceId', 'targetId', 'label', 'style'] as const;
+
+export type NodeMergeField = typeof NODE_FIELDS[number];
+export type RelationshipMergeField = typeof RELATIONSHIP_FIELDS[number];
+
+// 合并冲突
+export interface MergeConflict {
+  key: string;                 // 冲突标识，用于记录用户的选择
+  target: 'node' | 'relationship';
+  id: string;
+  type: 'edit' | 'delete';     // edit：双方修改为不同的值；delete：一方删除、另一方修改
+  fields: string[];            // 双方修改冲突的字段（edit冲突）
+  deletedBy?: MergeSide;       // 删除的一方（delete冲突）
+  base?: MindMapFileNode | Relationship;
+  ours?: MindMapFileNode | Relationship;
+  theirs?: MindMapFileNode | Relationship;
+}
+
+// 合并分析结果
+export interface MindMapMerge {
+  conflicts: MergeConflict[];
+  autoMerged: number;          // 自动合并的修改数量（按节点和关系计）
+  base: MindMapFile;
+  ours: MindMapFile;
+  theirs: MindMapFile;
+}
+
+// 用户对冲突的选择，键为MergeConflict.key
+export type MergeResolutions = Record<string, MergeSide>;
+
+// 节点或关系的字段合并结果
+interface FieldMergeResult<T> {
+  value: T;
+  changed: boolean;
+  conflictFields: string[];
+}
+
+type MergeRecord = MindMapFileNode | Relationship;
+
+const getConflictKey = (target: MergeConflict['target'], id: string) => `${target}:${id}`;
+
+// 按我的版本排序合并后的记录，只存在于对方版本的记录插入到对方版本中前一条记录之后
+const orderRecords = <T extends { id: string }>(merged: Map<string, T>, ours: T[], theirs: T[]): T[] => {
+  const ordered = ours.filter(record => merged.has(record.id)).map(record => record.id);
+  const positions = new Set(ordered);
+  theirs.forEach((record, index) => {
+    if (!merged.has(record.id) || positions.has(record.id)) return;
+    let insertAt = ordered.length;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const position = ordered.indexOf(theirs[previous].id);
+      if (position >= 0) {
+        insertAt = position + 1;
+        break;
+      }
+    }
+    ordered.splice(insertAt, 0, record.id);
+    positions.add(record.id);
+  });
+  return ordered.map(id => merged.get(id)!);
+};
+
+// 三方合并单个值，双方都修改时采用我的版本
+const pickValue = <T>(base: T | undefined, ours: T, theirs: T): T => {
+  return base !== undefined && isSameValue(base, ours) ? theirs : ours;
+};
+
+// 按ID合并评论或回复列表：双方新增的都保留，任一方删除的不再保留（除非另一方修改了它）
+const mergeById = <T extends { id: string }>(
+  base: T[] = [],
+  ours: T[] = [],
+  theirs: T[] = [],
+  mergeItem: (base: T | undefined, ours: T, theirs: T) => T
+): T[] => {
+  const baseMap = new Map(base.map(item => [item.id, item]));
+  const oursMap = new Map(ours.map(item => [item.id, item]));
+  const theirsMap = new Map(theirs.map(item => [item.id, item]));
+  const merged = new Map<string, T>();
+
+  new Set([...oursMap.keys(), ...theirsMap.keys()]).forEach(id => {
+    const baseItem = baseMap.get(id);
+    const oursItem = oursMap.get(id);
+    const theirsItem = theirsMap.get(id);
+    if (oursItem && theirsItem) {
+      merged.set(id, mergeItem(baseItem, oursItem, theirsItem));
+      return;
+    }
+    const keptItem = (oursItem || theirsItem)!;
+    if (!baseItem || !isSameValue(baseItem, keptItem)) merged.set(id, keptItem);
+  });
+
+  return orderRecords(merged, ours, theirs);
+};
+
+// 合并节点评论
+const mergeComments = (base?: NodeComment[], ours?: NodeComment[], theirs?: NodeComment[]): NodeComment[] | undefined => {
+  const comments = mergeById(base, ours, theirs, (baseComment, oursComment, theirsComment) => ({
+    ...oursComment,
+    text: pickValue(baseComment?.text, oursComment.text, theirsComment.text),
+    resolved: pickValue(baseComment?.resolved, oursComment.resolved, theirsComment.resolved),
+    replies: mergeById<NodeCommentReply>(
+      baseComment?.replies, oursComment.replies, theirsComment.replies,
+      (baseReply, oursReply, theirsReply) => ({
+        ...oursReply,
+        text: pickValue(baseReply?.text, oursReply.text, theirsReply.text)
+      })
+    )
+  }));
+  return comments.length > 0 ? comments : undefined;
+};
+
+// 双方都修改时自行合并、不产生冲突的字段
+const FIELD_MERGERS: Record<string, (base: unknown, ours: unknown, theirs: unknown) => unknown> = {
+  comments: (base, ours, theirs) => mergeComments(
+    base as NodeComment[] | undefined,
+    ours as NodeComment[] | undefined,
+    theirs as NodeComment[] | undefined
+  )
+};
+
+// 逐字段三方合并，冲突字段按resolution选择，未选择时暂用我的版本
+const mergeFields = <T extends MergeRecord>(
+  base: T | undefined,
+  ours: T,
+  theirs: T,
+  fields: readonly string[],
+  viewFields: readonly string[],
+  resolution?: MergeSide
+): FieldMergeResult<T> => {
+  const value = { ...ours } as Record<string, unknown>;
+  const oursRecord = ours as unknown as Record<string, unknown>;
+  const theirsRecord = theirs as unknown as Record<string, unknown>;
+  const baseRecord = base as unknown as Record<string, unknown> | undefined;
+  const conflictFields: string[] = [];
+  let changed = false;
+
+  [...fields, ...viewFields].forEach(field => {
+    const oursValue = oursRecord[field];
+    const theirsValue = theirsRecord[field];
+    const baseValue = baseRecord?.[field];
+    const oursChanged = !base || !isSameValue(baseValue, oursValue);
+    const theirsChanged = !base || !isSameValue(baseValue, theirsValue);
+    if (oursChanged || theirsChanged) changed = true;
+
+    if (isSameValue(oursValue, theirsValue) || !theirsChanged) {
+      value[field] = oursValue;
+    } else if (!oursChanged) {
+      value[field] = theirsValue;
+    } else if (viewFields.includes(field)) {
+      value[field] = oursValue;
+    } else if (FIELD_MERGERS[field]) {
+      value[field] = FIELD_MERGERS[field](baseValue, oursValue, theirsValue);
+    } else {
+      conflictFields.push(field);
+      value[field] = resolution === 'theirs' ? theirsValue : oursValue;
+    }
+  });
+
+  return { value: value as unknown as T, changed, conflictFields };
+};
+
+// 判断节点记录相对基准是否被修改
+const isNodeChanged = (base: MindMapFileNode, node: MindMapFileNode): boolean => {
+  return NODE_FIELDS.some(field => !isSameValue(base[field], node[field]));
+};
+
+// 判断一方是否修改了节点的子树（节点本身、子孙节点被修改或移动，或新增了子孙节点）
+const isSubtreeChanged = (id: string, baseNodes: Map<string, MindMapFileNode>, file: MindMapFile): boolean => {
+  const children = new Map<string, MindMapFileNode[]>();
+  file.nodes.forEach(node => {
+    if (node.parent === undefined) return;
+    children.set(node.parent, [...(children.get(node.parent) || []), node]);
+  });
+
+  const visit = (node: MindMapFileNode): boolean => {
+    const baseNode = baseNodes.get(node.id);
+    if (!baseNode || isNodeChanged(baseNode, node)) return true;
+    return (children.get(node.id) || []).some(visit);
+  };
+
+  const node = file.nodes.find(record => record.id === id);
+  return node ? visit(node) : false;
+};
+
+// 合并一类记录（节点或关系），返回合并后的记录、冲突和自动合并数量
+const mergeRecords = <T extends MergeRecord>(
+  target: MergeConflict['target'],
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  fields: readonly string[],
+  viewFields: readonly string[],
+  isDeleteConflict: (id: string, keptBy: MergeSide) => boolean,
+  resolutions: MergeResolutions
+) => {
+  const baseMap = new Map(base.map(record => [record.id, record]));
+  const oursMap = new Map(ours.map(record => [record.id, record]));
+  const theirsMap = new Map(theirs.map(record => [record.id, record]));
+  const ids = new Set([...baseMap.keys(), ...oursMap.keys(), ...theirsMap.keys()]);
+
+  const merged = new Map<string, T>();
+  const conflicts: MergeConflict[] = [];
+  let autoMerged = 0;
+
+  ids.forEach(id => {
+    const key = getConflictKey(target, id);
+    const baseRecord = baseMap.get(id);
+    const oursRecord = oursMap.get(id);
+    const theirsRecord = theirsMap.get(id);
+
+    if (oursRecord && theirsRecord) {
+      const result = mergeFields(baseRecord, oursRecord, theirsRecord, fields, viewFields, resolutions[key]);
+      merged.set(id, result.value);
+      if (result.conflictFields.length > 0) {
+        conflicts.push({
+          key, target, id, type: 'edit', fields: result.conflictFields,
+          base: baseRecord, ours: oursRecord, theirs: theirsRecord
+        });
+      } else if (result.changed) {
+        autoMerged++;
+      }
+      return;
+    }
+
+    const keptBy: MergeSide = oursRecord ? 'ours' : 'theirs';
+    const keptRecord = oursRecord || theirsRecord;
+    if (!baseRecord) {
+      // 只有一方新增
+      merged.set(id, keptRecord!);
+      autoMerged++;
+      return;
+    }
+    if (!keptRecord) {
+      // 双方都已删除
+      return;
+    }
+
+    const deletedBy: MergeSide = keptBy === 'ours' ? 'theirs' : 'ours';
+    if (isDeleteConflict(id, keptBy)) {
+      conflicts.push({
+        key, target, id, type: 'delete', fields: [], deletedBy,
+        base: baseRecord, ours: oursRecord, theirs: theirsRecord
+      });
+      if ((resolutions[key] || 'ours') === keptBy) merged.set(id, keptRecord);
+    } else {
+      // 保留的一方没有修改，直接删除
+      autoMerged++;
+    }
+  });
+
+  return {
+    records: orderRecords(merged, ours, theirs),
+    conflicts,
+    autoMerged
+  };
+};
+
+// 合并背景、布局等整体设置，双方改成不同的值时采用我的版本
+const mergeSetting = <T>(base?: T, ours?: T, theirs?: T): T | undefined => {
+  if (isSameValue(base, ours)) return theirs;
+  return ours;
+};
+
+// 去除父节点已被删除的节点，并修正双方移动造成的父节点循环
+const repairNodeTree = (nodes: MindMapFileNode[], ours: MindMapFile): MindMapFileNode[] => {
+  const nodeMap = new Map(nodes.map(node => [node.id, { ...node }]));
+  const oursParents = new Map(ours.nodes.map(node => [node.id, node.parent]));
+
+  // 沿父节点链查找循环，把循环中的节点恢复为我的版本中的父节点（我的版本本身没有循环）
+  let repaired = true;
+  while (repaired) {
+    repaired = false;
+    for (const node of nodeMap.values()) {
+      const chain = new Set<string>();
+      let current: MindMapFileNode | undefined = node;
+      while (current && current.parent !== undefined && !chain.has(current.id)) {
+        chain.add(current.id);
+        current = nodeMap.get(current.parent);
+      }
+      if (
+        current && chain.has(current.id) &&
+        oursParents.has(current.id) && current.parent !== oursParents.get(current.id)
+      ) {
+        current.parent = oursParents.get(current.id);
+        repaired = true;
+        break;
+      }
+    }
+  }
+
+  // 父节点被删除时，整个子树一起删除
+  const isAttached = (node: MindMapFileNode, visited: Set<string> = new Set()): boolean => {
+    if (node.parent === undefined) return true;
+    const parent = nodeMap.get(node.parent);
+    if (!parent || visited.has(parent.id)) return false;
+    visited.add(node.id);
+    return isAttached(parent, visited);
+  };
+
+  return nodes.map(node => nodeMap.get(node.id)!).filter(node => isAttached(node));
+};
+
+// 执行合并，未选择的冲突暂时采用我的版本
+const runMerge = (base: MindMapFile, ours: MindMapFile, theirs: MindMapFile, resolutions: MergeResolutions) => {
+  const baseNodes = new Map(base.nodes.map(node => [node.id, node]));
+  const sides: Record<MergeSide, MindMapFile> = { ours, theirs };
+
+  const nodeResult = mergeRecords(
+    'node', base.nodes, ours.nodes, theirs.nodes, NODE_FIELDS, NODE_VIEW_FIELDS,
+    (id, keptBy) => isSubtreeChanged(id, baseNodes, sides[keptBy]),
+    resolutions
+  );
+
+  const baseRelationships = new Map(base.relationships.map(relationship => [relationship.id, relationship]));
+  const relationshipResult = mergeRecords(
+    'relationship', base.relationships, ours.relationships, theirs.relationships, RELATIONSHIP_FIELDS, [],
+    (id, keptBy) => {
+      const kept = sides[keptBy].relationships.find(relationship => relationship.id === id)!;
+      return !isSameValue(baseRelationships.get(id), kept);
+    },
+    resolutions
+  );
+
+  const nodes = repairNodeTree(nodeResult.records, ours);
+  const ids = new Set(nodes.map(node => node.id));
+
+  return {
+    data: {
+      formatVersion: ours.formatVersion,
+      nodes,
+      relationships: relationshipResult.records.filter(
+        relationship => ids.has(relationship.sourceId) && ids.has(relationship.targetId)
+      ),
+      background: mergeSetting(base.background, ours.background, theirs.background),
+      layout: mergeSetting(base.layout, ours.layout, theirs.layout)
+    } as MindMapFile,
+    conflicts: [...nodeResult.conflicts, ...relationshipResult.conflicts],
+    autoMerged: nodeResult.autoMerged + relationshipResult.autoMerged
+  };
+};
+
+// 分析三个版本，找出可以自动合并的修改和需要用户处理的冲突
+export const mergeMindMaps = (base: MindMapData, ours: MindMapData, theirs: MindMapData): MindMapMerge => {
+  const files = [base, ours, theirs].map(serializeMindMap);
+  const rootIds = files.map(file => file.nodes[0].id);
+  if (rootIds.some(id => id !== rootIds[0])) {
+    throw new Error('三个文件不是同一个思维导图的版本（中心主题不同）');
+  }
+
+  const [baseFile, oursFile, theirsFile] = files;
+  const { conflicts, autoMerged } = runMerge(baseFile, oursFile, theirsFile, {});
+  return { conflicts, autoMerged, base: baseFile, ours: oursFile, theirs: theirsFile };
+};
+
+// 按用户的选择处理冲突，生成合并后的思维导图
+export const resolveMindMapMerge = (merge: MindMapMerge, resolutions: MergeResolutions): MindMapData => {
+  const unresolved = merge.conflicts.filter(conflict => !resolutions[conflict.key]);
+  if (unresolved.length > 0) {
+    throw new Error(`还有${unresolved.length}处冲突未处理`);
+  }
+  const { data } = runMerge(merge.base, merge.ours, merge.theirs, resolutions);
+  return parseMindMapFile(data);
+};
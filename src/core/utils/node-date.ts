@@ -0,0 +1,20 @@
+// 节点日期格式：YYYY-MM-DD
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// 把节点日期转换为距1970-01-01的天数，格式错误或日期不存在（如2月30日）时返回null
+export const parseNodeDate = (date: string): number | null => {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  const parsed = new Date(time);
+  if (parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    return null;
+  }
+  return Math.round(time / MS_PER_DAY);
+};
+
+// 是否为有效的节点日期
+export const isValidNodeDate = (date: string): boolean => parseNodeDate(date) !== null;
@@ -0,0 +1,43 @@
+import { OutlineItem } from '@/types/mindmap';
+
+// 计算行首缩进宽度（制表符按4个空格计算）
+export const getIndentWidth = (line: string): number => {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width += 1;
+    else if (char === '\t') width += 4;
+    else break;
+  }
+  return width;
+};
+
+// 去掉常见的列表符号（- * + •）
+const stripBullet = (text: string): string => {
+  return text.replace(/^[-*+•]\s+/, '');
+};
+
+// 解析制表符或空格缩进的纯文本为大纲树，缩进更深的行成为上一行的子条目
+export const parseIndentedText = (text: string): OutlineItem[] => {
+  const items: OutlineItem[] = [];
+  const stack: { indent: number; item: OutlineItem }[] = [];
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const content = stripBullet(line.trim());
+    if (!content) return;
+
+    const indent = getIndentWidth(line);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const item: OutlineItem = { content, children: [] };
+    if (stack.length > 0) {
+      stack[stack.length - 1].item.children.push(item);
+    } else {
+      items.push(item);
+    }
+    stack.push({ indent, item });
+  });
+
+  return items;
+};
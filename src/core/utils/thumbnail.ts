@@ -0,0 +1,81 @@
+import { MindNode } from '@/types/mindmap';
+
+/**
+ * 思维导图缩略图生成工具
+ */
+
+// 缩略图默认尺寸
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 100;
+const THUMBNAIL_PADDING = 20;
+
+// 转义SVG属性中的特殊字符
+const escapeAttribute = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+};
+
+// 根据节点位置生成SVG缩略图，返回data URL
+export const createThumbnail = (
+  nodes: MindNode[],
+  width: number = THUMBNAIL_WIDTH,
+  height: number = THUMBNAIL_HEIGHT,
+  backgroundColor: string = '#f5f5f5'
+): string => {
+  const positionedNodes = nodes.filter(node => node.position);
+
+  let content = '';
+  let viewBox = `0 0 ${width} ${height}`;
+
+  if (positionedNodes.length > 0) {
+    // 计算所有节点的包围盒
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    positionedNodes.forEach(node => {
+      const nodeWidth = node.style.width || 120;
+      const nodeHeight = node.style.height || 40;
+      minX = Math.min(minX, node.position!.x - nodeWidth / 2);
+      minY = Math.min(minY, node.position!.y - nodeHeight / 2);
+      maxX = Math.max(maxX, node.position!.x + nodeWidth / 2);
+      maxY = Math.max(maxY, node.position!.y + nodeHeight / 2);
+    });
+
+    minX -= THUMBNAIL_PADDING;
+    minY -= THUMBNAIL_PADDING;
+    maxX += THUMBNAIL_PADDING;
+    maxY += THUMBNAIL_PADDING;
+    viewBox = `${minX} ${minY} ${maxX - minX} ${maxY - minY}`;
+
+    const nodeMap = new Map(positionedNodes.map(node => [node.id, node]));
+
+    // 父子连线
+    positionedNodes.forEach(node => {
+      const parent = node.parent ? nodeMap.get(node.parent) : undefined;
+      if (parent) {
+        content += `<line x1="${parent.position!.x}" y1="${parent.position!.y}" x2="${node.position!.x}" y2="${node.position!.y}" stroke="#c0c0c0" stroke-width="3"/>`;
+      }
+    });
+
+    // 节点矩形
+    positionedNodes.forEach(node => {
+      const nodeWidth = node.style.width || 120;
+      const nodeHeight = node.style.height || 40;
+      const fill = escapeAttribute(node.style.backgroundColor || '#ffffff');
+      const stroke = escapeAttribute(node.style.borderColor || '#cccccc');
+      content += `<rect x="${node.position!.x - nodeWidth / 2}" y="${node.position!.y - nodeHeight / 2}" width="${nodeWidth}" height="${nodeHeight}" rx="5" fill="${fill}" stroke="${stroke}" stroke-width="2"/>`;
+    });
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox}" preserveAspectRatio="xMidYMid meet">`
+    + `<rect x="-100000" y="-100000" width="200000" height="200000" fill="${escapeAttribute(backgroundColor)}"/>`
+    + content
+    + '</svg>';
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
@@ -0,0 +1,17 @@
+// 本地保存的用户昵称，用于协作和评论
+const USER_NAME_KEY = 'webxmind-user-name';
+
+// 获取用户昵称，首次使用时生成一个随机昵称
+export const getUserName = (): string => {
+  const saved = localStorage.getItem(USER_NAME_KEY);
+  if (saved) return saved;
+
+  const name = `用户${Math.floor(Math.random() * 9000) + 1000}`;
+  localStorage.setItem(USER_NAME_KEY, name);
+  return name;
+};
+
+// 保存用户昵称
+export const setUserName = (name: string) => {
+  localStorage.setItem(USER_NAME_KEY, name);
+};
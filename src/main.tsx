@@ -34,18 +34,6 @@ const debugStore = () => {
 // 调用调试函数
 debugStore();
 
-// 移除WebManifest
-const removeManifestLink = () => {
-  const manifestLink = document.querySelector('link[rel="manifest"]');
-  if (manifestLink) {
-    manifestLink.remove();
-    console.log('已移除manifest链接');
-  }
-};
-
-// 调用移除WebManifest
-removeManifestLink();
-
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ConfigProvider locale={zhCN}>
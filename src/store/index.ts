@@ -1,99 +1,292 @@
 import { create } from 'zustand';
-import { MindNode, NodeStyle, ConnectionStyle, NodeIcon, NodeImage, Relationship, BackgroundConfig } from '@/types/mindmap';
-import { createInitialMindMap, flattenNodes, createNode } from '@/core/models/mindmap';
-import { calculateMindMapLayout } from '@/core/layouts/mindmap-layout';
+import { MindNode, NodeStyle, ConnectionStyle, NodeIcon, NodeImage, NodePosition, Relationship, BackgroundConfig, LayoutType, MindMapSummary, MindMapData, MindMapSnapshot, OutlineItem } from '@/types/mindmap';
+import { createInitialMindMap, flattenNodes, createNode, DEFAULT_CONNECTION_STYLE } from '@/core/models/mindmap';
+import { calculateMindMapLayout, DEFAULT_LAYOUT } from '@/core/layouts/mindmap-layout';
+import { createThumbnail } from '@/core/utils/thumbnail';
+import { parseJSON, createJSON, parseMindMapFile, serializeMindMap, MindMapFormatError } from '@/core/converters/json';
+import { parseXMind, createXMind } from '@/core/converters/xmind';
+import { parseFreeMind, createFreeMind } from '@/core/converters/freemind';
+import { parseMarkdown, createMarkdown } from '@/core/converters/markdown';
+import { parseOPML, createOPML } from '@/core/converters/opml';
+import { createSVG, inlineSVGImages, SVGExportOptions } from '@/core/converters/svg';
+import { createPDF, PDFExportOptions } from '@/core/converters/pdf';
+import { createDocx } from '@/core/converters/docx';
 import {
   addChildNode,
+  addChildNodes,
   addSiblingNodeFunc,
   deleteNodeFunc,
   updateNodeContentFunc,
   updateNodeStyleFunc,
   toggleNodeExpandedFunc,
+  updateNodeCommentsFunc,
+  expandAncestorsFunc,
+  balanceNodesFunc,
+  updateNodeDateFunc,
   findNodeById
 } from '@/core/operations/node-operations';
+import { openDatabase, DB_NAME } from '@/core/storage/database';
+import { STORE_NAME, TEMPLATES_STORE, CURRENT_MAP_KEY } from '@/core/storage/migrations';
+import {
+  saveSnapshotToDB,
+  loadSnapshotFromDB,
+  loadSnapshotsFromDB,
+  deleteSnapshotsFromDB,
+  pruneAutoSnapshots
+} from '@/core/storage/snapshots';
+import { mergeMindMaps, resolveMindMapMerge, MindMapMerge, MergeResolutions } from '@/core/utils/map-merge';
+import {
+  createCollaborationSession,
+  CollaborationSession,
+  CollaborationPeer,
+  PEER_COLORS
+} from '@/core/collaboration/session';
+import {
+  createBroadcastChannelTransport,
+  createWebSocketTransport,
+  TransportStatus
+} from '@/core/collaboration/transport';
+import { createTabSync, TabSync, TabSyncMessage } from '@/core/storage/tab-sync';
+import {
+  MindMapFileFormat,
+  isFileSystemAccessSupported,
+  getFileFormat,
+  withFileExtension,
+  pickFileToOpen,
+  pickFileToSave,
+  ensureWritePermission,
+  writeFileHandle
+} from '@/core/storage/file-system';
+import {
+  LinkedFileRecord,
+  saveLinkedFileToDB,
+  loadLinkedFileFromDB,
+  deleteLinkedFileFromDB
+} from '@/core/storage/file-handles';
+import { downloadBlob } from '@/core/utils/download';
 import { v4 as uuidv4 } from 'uuid';
 
-// IndexedDB数据库名和版本
-const DB_NAME = 'mindmapDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'mindmaps';
-const CURRENT_MAP_KEY = 'currentMap';
-const TEMPLATES_STORE = 'templates';
-
 // 打开IndexedDB连接
-const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
-    
-    request.onerror = (event) => {
-      console.error('IndexedDB打开失败:', event);
-      reject(new Error('无法打开IndexedDB数据库'));
-    };
-    
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      resolve(db);
-    };
-    
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      
-      // 创建思维导图存储
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        console.log(`创建存储: ${STORE_NAME}`);
-      }
-      
-      // 创建模板存储
-      if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
-        db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
-        console.log(`创建存储: ${TEMPLATES_STORE}`);
-      }
-    };
-  });
+const openDB = (): Promise<IDBDatabase> => openDatabase(DB_NAME);
+
+// 标签页之间的保存通知，在初始化时创建
+let tabSync: TabSync | null = null;
+
+// 自动快照的最短间隔，以及每个思维导图保留的自动快照数量
+const AUTO_SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+const MAX_AUTO_SNAPSHOTS = 30;
+
+// 各思维导图最近一次尝试自动快照的时间
+const lastAutoSnapshotTimes = new Map<string, number>();
+
+// 为思维导图创建快照；自动快照的内容与最近一次快照相同时跳过
+const createSnapshotRecord = async (
+  mapId: string,
+  data: MindMapData,
+  options: { name?: string; auto: boolean }
+): Promise<MindMapSnapshot | null> => {
+  const file = serializeMindMap(data);
+
+  if (options.auto) {
+    const [latest] = await loadSnapshotsFromDB(mapId);
+    if (latest && JSON.stringify(latest.data) === JSON.stringify(file)) return null;
+  }
+
+  const snapshot: MindMapSnapshot = {
+    id: uuidv4(),
+    mapId,
+    name: options.name,
+    auto: options.auto,
+    createdAt: new Date().toISOString(),
+    nodeCount: file.nodes.length,
+    data: file
+  };
+  await saveSnapshotToDB(snapshot);
+
+  if (options.auto) {
+    await pruneAutoSnapshots(mapId, MAX_AUTO_SNAPSHOTS);
+  }
+  return snapshot;
+};
+
+// 各思维导图在本标签页中最近一次保存或加载时的修订号和内容
+// 保存时数据库中的修订号与此不同，说明其他标签页已保存过新的内容
+const syncedMaps = new Map<string, { revision: number; content: string }>();
+
+// 序列化思维导图内容（不含布局位置），用于判断是否有未保存的修改
+const serializeContent = (data: MindMapData): string => {
+  try {
+    return JSON.stringify(serializeMindMap(data));
+  } catch {
+    return '';
+  }
 };
 
-// 保存思维导图到IndexedDB
-const saveMindMapToDB = async (id: string, data: { nodes: MindNode[], relationships: Relationship[], background: BackgroundConfig }): Promise<void> => {
+// 保存结果：conflict表示其他标签页已保存了更新的内容，本次没有写入
+type SaveResult = 'saved' | 'unchanged' | 'conflict' | 'failed';
+
+// 保存思维导图到IndexedDB，只有数据库中的修订号与本标签页记录的一致时才写入
+const saveMindMapToDB = async (id: string, data: { nodes: MindNode[], relationships: Relationship[], background: BackgroundConfig, layout: LayoutType }): Promise<SaveResult> => {
   try {
     const db = await openDB();
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    
-    // 保存思维导图数据
+    const synced = syncedMaps.get(id);
+    const content = serializeContent(data);
+    let result = 'failed' as SaveResult;
+    let revision = 0;
+
+    // 在同一个事务中检查修订号并写入，避免两个标签页同时保存
     await new Promise<void>((resolve, reject) => {
-      const request = store.put({
-        id,
-        ...data,
-        updatedAt: new Date().toISOString()
-      });
-      
-      request.onsuccess = () => resolve();
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const existing = request.result as MindMapRecord | undefined;
+        const existingRevision = existing?.revision || 0;
+        if (existing && existingRevision !== (synced?.revision || 0)) {
+          result = 'conflict';
+          return;
+        }
+        if (existing && synced && synced.content === content) {
+          result = 'unchanged';
+          return;
+        }
+
+        revision = existingRevision + 1;
+        store.put({
+          id,
+          ...data,
+          revision,
+          updatedAt: new Date().toISOString()
+        });
+        // 设置为当前思维导图
+        store.put({
+          id: CURRENT_MAP_KEY,
+          currentMapId: id,
+          updatedAt: new Date().toISOString()
+        });
+        result = 'saved';
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = (event) => reject(event);
+    });
+
+    if (result === 'saved') {
+      syncedMaps.set(id, { revision, content });
+      tabSync?.post({ type: 'saved', mapId: id, revision });
+      console.log(`思维导图 ${id} 已保存到IndexedDB`);
+    } else if (result === 'conflict') {
+      console.warn(`思维导图 ${id} 已在其他标签页中修改，本次没有保存`);
+    }
+    return result;
+  } catch (error) {
+    console.error('保存思维导图失败:', error);
+    return 'failed';
+  }
+};
+
+// IndexedDB中存储的思维导图记录
+interface MindMapRecord {
+  id: string;
+  nodes: MindNode[];
+  relationships: Relationship[];
+  background: BackgroundConfig;
+  layout?: LayoutType; // 布局类型，旧记录没有此字段
+  revision?: number;  // 修订号，每次保存加一
+  updatedAt: string;
+}
+
+// 写入思维导图记录（不改变当前思维导图ID）
+const putMindMapRecordToDB = async (record: MindMapRecord): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  await new Promise<void>((resolve, reject) => {
+    const request = store.put(record);
+
+    request.onsuccess = () => resolve();
+    request.onerror = (event) => reject(event);
+  });
+};
+
+// 加载所有思维导图记录（不包含当前思维导图ID记录）
+const loadAllMindMapsFromDB = async (): Promise<MindMapRecord[]> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        const records = (request.result || []).filter(
+          record => record.id !== CURRENT_MAP_KEY && Array.isArray(record.nodes)
+        );
+        resolve(records);
+      };
+
       request.onerror = (event) => reject(event);
     });
-    
-    // 设置为当前思维导图
-    await new Promise<void>((resolve, reject) => {
-      const settingsTransaction = db.transaction(STORE_NAME, 'readwrite');
-      const settingsStore = settingsTransaction.objectStore(STORE_NAME);
-      const request = settingsStore.put({
-        id: CURRENT_MAP_KEY,
-        currentMapId: id,
-        updatedAt: new Date().toISOString()
-      });
-      
-      request.onsuccess = () => resolve();
+  } catch (error) {
+    console.error('加载思维导图列表失败:', error);
+    return [];
+  }
+};
+
+// 从IndexedDB删除思维导图
+const deleteMindMapFromDB = async (id: string): Promise<boolean> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve(true);
       request.onerror = (event) => reject(event);
     });
-    
-    console.log(`思维导图 ${id} 已保存到IndexedDB`);
   } catch (error) {
-    console.error('保存思维导图失败:', error);
+    console.error('删除思维导图失败:', error);
+    return false;
   }
 };
 
+// 保存当前思维导图ID
+const saveCurrentMapId = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  await new Promise<void>((resolve, reject) => {
+    const request = store.put({
+      id: CURRENT_MAP_KEY,
+      currentMapId: id,
+      updatedAt: new Date().toISOString()
+    });
+
+    request.onsuccess = () => resolve();
+    request.onerror = (event) => reject(event);
+  });
+};
+
+// 生成思维导图摘要
+const summarizeMindMap = (record: MindMapRecord): MindMapSummary => {
+  const rootNode = record.nodes.find(node => node.level === 0);
+
+  return {
+    id: record.id,
+    title: rootNode?.content || '未命名思维导图',
+    updatedAt: record.updatedAt,
+    nodeCount: record.nodes.length,
+    thumbnail: createThumbnail(record.nodes, undefined, undefined, record.background?.color)
+  };
+};
+
 // 从IndexedDB加载思维导图
-const loadMindMapFromDB = async (id: string): Promise<{ nodes: MindNode[], relationships: Relationship[], background: BackgroundConfig } | null> => {
+const loadMindMapFromDB = async (id: string): Promise<{ nodes: MindNode[], relationships: Relationship[], background: BackgroundConfig, layout?: LayoutType } | null> => {
   try {
     const db = await openDB();
     const transaction = db.transaction(STORE_NAME, 'readonly');
@@ -104,8 +297,9 @@ const loadMindMapFromDB = async (id: string): Promise<{ nodes: MindNode[], relat
       
       request.onsuccess = () => {
         if (request.result) {
-          const { nodes, relationships, background } = request.result;
-          resolve({ nodes, relationships, background });
+          const { nodes, relationships, background, layout, revision } = request.result as MindMapRecord;
+          syncedMaps.set(id, { revision: revision || 0, content: serializeContent({ nodes, relationships, background, layout }) });
+          resolve({ nodes, relationships, background, layout });
         } else {
           resolve(null);
         }
@@ -146,7 +340,7 @@ const loadCurrentMapId = async (): Promise<string | null> => {
 };
 
 // 保存模板到IndexedDB
-const saveTemplateToDb = async (template: { id: string, name: string, nodes: MindNode[], relationships: Relationship[], background?: BackgroundConfig }): Promise<void> => {
+const saveTemplateToDb = async (template: { id: string, name: string, nodes: MindNode[], relationships: Relationship[], background?: BackgroundConfig, layout?: LayoutType }): Promise<void> => {
   let db: IDBDatabase | null = null;
   
   try {
@@ -341,6 +535,84 @@ const DEFAULT_BACKGROUND: BackgroundConfig = {
   opacity: 1
 };
 
+// 定位节点的请求，画布收到后把节点移动到视图中央
+export interface FocusRequest {
+  nodeId: string;
+  requestedAt: number;  // 请求时间，重复定位同一节点时用于区分
+}
+
+// 版本对比的基准版本
+export interface DiffBase {
+  name: string;         // 基准版本名称（文件名或版本名称）
+  data: MindMapData;
+}
+
+// 协作的连接方式：同一浏览器的标签页之间，或通过WebSocket中继服务器
+export type CollaborationTransportType = 'broadcast' | 'websocket';
+
+// 开始协作的选项
+export interface CollaborationOptions {
+  room: string;
+  mode: 'create' | 'join';     // 创建房间时以当前内容初始化，加入房间时使用房间中的内容
+  transport: CollaborationTransportType;
+  relayUrl?: string;           // WebSocket中继服务器地址
+  name: string;                // 显示给其他参与者的昵称
+}
+
+// 当前协作状态
+export interface CollaborationState {
+  room: string;
+  transport: CollaborationTransportType;
+  status: TransportStatus;
+}
+
+// 当前协作会话，以及应用远程修改时的标记（避免把远程修改再次写回文档）
+let collaborationSession: CollaborationSession | null = null;
+let unsubscribeCollaboration: (() => void) | null = null;
+let applyingRemoteChange = false;
+let collaborationSaveTimer: ReturnType<typeof setTimeout> | undefined;
+
+// 当前思维导图关联的本地文件
+export interface CurrentFile {
+  name: string;
+  format: MindMapFileFormat;
+  writable: boolean;   // 能否直接写回文件，不能时保存会下载文件
+}
+
+// 打开或保存文件的结果
+export type FileActionResult = 'done' | 'cancelled' | 'failed';
+
+// 当前思维导图关联的文件记录（包括文件句柄），与state.currentFile对应
+let linkedFile: LinkedFileRecord | null = null;
+let unsubscribeFileTracking: (() => void) | null = null;
+let dirtyCheckTimer: ReturnType<typeof setTimeout> | undefined;
+
+// 生成指定格式的文件内容
+const createFileContent = async (format: MindMapFileFormat, data: MindMapData): Promise<Blob> => {
+  if (format === 'xmind') return createXMind(data);
+  return new Blob([createJSON(data)], { type: 'application/json' });
+};
+
+// 读取文件中的思维导图
+const readFileContent = async (file: File, format: MindMapFileFormat): Promise<MindMapData> => {
+  if (format === 'xmind') return parseXMind(await file.arrayBuffer());
+  return parseJSON(await file.text());
+};
+
+const toCurrentFile = (record: LinkedFileRecord): CurrentFile => ({
+  name: record.name,
+  format: record.format,
+  writable: !!record.handle
+});
+
+// 撤销/重做记录，background和layout仅在操作改变了背景或布局时记录（如恢复历史版本、切换布局）
+interface HistoryEntry {
+  nodes: MindNode[];
+  relationships: Relationship[];
+  background?: BackgroundConfig;
+  layout?: LayoutType;
+}
+
 export interface MindMapState {
   // 数据状态
   nodes: MindNode[];
@@ -352,16 +624,19 @@ export interface MindMapState {
   connectionStyle: ConnectionStyle;
   relationships: Relationship[];
   background: BackgroundConfig; // 背景配置
-  undoStack: {
-    nodes: MindNode[];
-    relationships: Relationship[];
-  }[];
-  redoStack: {
-    nodes: MindNode[];
-    relationships: Relationship[];
-  }[];
+  layout: LayoutType; // 布局类型
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
   isAddingNode: boolean; // 添加节点操作状态标志
   currentMapId: string; // 当前思维导图ID
+  diffBase: DiffBase | null; // 版本对比的基准版本，为空时不显示对比
+  collaboration: CollaborationState | null; // 协作状态，未协作时为空
+  collaborators: CollaborationPeer[]; // 其他在线的协作者
+  tabConflict: boolean; // 当前思维导图已在其他标签页中修改且本标签页有未保存的修改，暂停保存
+  commentsPanelOpen: boolean; // 是否显示评论面板
+  focusRequest: FocusRequest | null; // 最近一次定位节点的请求
+  currentFile: CurrentFile | null; // 当前思维导图关联的本地文件
+  isDirty: boolean; // 关联本地文件后是否有尚未保存到文件的修改
   
   // 节点操作
   setNodes: (nodes: MindNode[]) => void;
@@ -371,6 +646,7 @@ export interface MindMapState {
   setZoom: (zoom: number) => void;
   setConnectionStyle: (style: ConnectionStyle) => void;
   setBackground: (background: Partial<BackgroundConfig>) => void; // 设置背景
+  setLayout: (layout: LayoutType) => void; // 切换布局，可以撤销
   
   // 内部操作
   executeWithHistory: (operation: (state: { 
@@ -387,15 +663,26 @@ export interface MindMapState {
   // 高级节点操作
   addChildNode: (parentId: string, content?: string) => void;
   addSiblingNode: (siblingId: string, content?: string) => void;
+  addChildNodes: (parentId: string, items: OutlineItem[]) => void;
   deleteNode: (nodeId: string) => void;
   updateNodeContent: (nodeId: string, content: string) => void;
   updateNodeStyle: (nodeId: string, style: Partial<NodeStyle>) => void;
   toggleNodeExpanded: (nodeId: string) => void;
+  balanceLayout: () => void;
   updateNodeNote: (nodeId: string, note: string) => void;
   updateNodeIcon: (nodeId: string, icon: NodeIcon | undefined) => void;
   updateNodeImage: (nodeId: string, image: NodeImage | undefined) => void;
+  updateNodeDate: (nodeId: string, date?: string) => void; // 设置节点日期，不传时清除
   createNodeReference: (sourceNodeId: string, targetParentId: string) => void;
   
+  // 评论操作
+  addNodeComment: (nodeId: string, author: string, text: string) => void;
+  replyToNodeComment: (nodeId: string, commentId: string, author: string, text: string) => void;
+  setNodeCommentResolved: (nodeId: string, commentId: string, resolved: boolean) => void;
+  deleteNodeComment: (nodeId: string, commentId: string, replyId?: string) => void;
+  setCommentsPanelOpen: (open: boolean) => void;
+  focusNode: (nodeId: string) => void;
+  
   // 关系连线操作
   addRelationship: (sourceId: string, targetId: string, label?: string) => void;
   updateRelationship: (relationshipId: string, updates: Partial<Relationship>) => void;
@@ -407,16 +694,65 @@ export interface MindMapState {
   
   // 导出
   exportToJSON: () => string;
-  exportToImage: () => string;
+  exportToImage: (options?: SVGExportOptions) => Promise<{ url: string; failedImages: string[] }>; // failedImages为无法内嵌而省略的图片
+  exportToSVG: (options?: SVGExportOptions) => string;
+  exportToPDF: (options?: PDFExportOptions) => Promise<Blob>;
+  exportToDocx: () => Promise<Blob>;
+  exportToXMind: () => Promise<Blob>;
+  exportToFreeMind: () => string;
+  exportToMarkdown: () => string;
+  exportToOPML: () => string;
   
   // 导入
+  loadMindMapData: (data: MindMapData) => void;
+  replaceMindMapData: (data: MindMapData) => void;
   importFromJSON: (jsonString: string) => boolean;
+  importFromXMind: (data: ArrayBuffer) => Promise<boolean>;
+  importFromFreeMind: (text: string) => boolean;
+  importFromMarkdown: (text: string, title?: string) => boolean;
+  importFromOPML: (text: string, title?: string) => boolean;
   
   // 本地存储
   saveToLocalStorage: () => Promise<void>;
   loadFromLocalStorage: () => Promise<boolean>;
   createNewMindMap: () => boolean;
   createEmptyMindMap: () => boolean;
+  reloadCurrentMap: () => Promise<boolean>;
+  resolveTabConflict: (choice: 'reload' | 'overwrite' | 'saveAsNew') => Promise<boolean>;
+  
+  // 本地文件
+  openFile: (file?: File) => Promise<FileActionResult>;
+  saveFile: () => Promise<FileActionResult>;
+  saveFileAs: (format?: MindMapFileFormat) => Promise<FileActionResult>;
+  loadLinkedFile: (mapId: string) => Promise<void>;
+  
+  // 文档库
+  listMindMaps: () => Promise<MindMapSummary[]>;
+  openMindMap: (id: string) => Promise<boolean>;
+  renameMindMap: (id: string, title: string) => Promise<boolean>;
+  duplicateMindMap: (id: string) => Promise<string | null>;
+  deleteMindMap: (id: string) => Promise<boolean>;
+  
+  // 版本历史
+  listSnapshots: () => Promise<MindMapSnapshot[]>;
+  createSnapshot: (name: string) => Promise<boolean>;
+  restoreSnapshot: (snapshotId: string) => Promise<boolean>;
+  renameSnapshot: (snapshotId: string, name: string) => Promise<boolean>;
+  deleteSnapshot: (snapshotId: string) => Promise<boolean>;
+  
+  // 版本对比
+  compareWithJSON: (jsonString: string, name: string) => boolean;
+  compareWithSnapshot: (snapshotId: string) => Promise<boolean>;
+  clearDiffBase: () => void;
+  
+  // 三方合并
+  analyzeMerge: (baseJSON: string, oursJSON: string, theirsJSON: string) => MindMapMerge;
+  applyMerge: (merge: MindMapMerge, resolutions: MergeResolutions) => boolean;
+  
+  // 实时协作
+  startCollaboration: (options: CollaborationOptions) => Promise<boolean>;
+  stopCollaboration: () => void;
+  updateCollaborationCursor: (position: NodePosition | null) => void;
   
   // 模板功能
   saveAsTemplate: (name: string) => Promise<string>;
@@ -429,14 +765,7 @@ export interface MindMapState {
   initialize: () => void;
 }
 
-const DEFAULT_CONNECTION_STYLE: ConnectionStyle = {
-  lineColor: '#c0c0c0',
-  lineWidth: 1.5,
-  lineStyle: 'orthogonalRounded',
-  lineType: 'solid',
-};
-
-const useMindMapStore = create<MindMapState>((set, get) => ({
+const useMindMapStore = create<MindMapState>((set, get, api) => ({
   // 初始状态
   nodes: [],
   selectedNodeIds: [],
@@ -446,10 +775,19 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
   connectionStyle: DEFAULT_CONNECTION_STYLE,
   relationships: [],
   background: DEFAULT_BACKGROUND, // 默认背景
+  layout: DEFAULT_LAYOUT, // 默认布局
   undoStack: [],
   redoStack: [],
   isAddingNode: false,
   currentMapId: uuidv4(), // 默认生成一个新的思维导图ID
+  diffBase: null,
+  collaboration: null,
+  collaborators: [],
+  tabConflict: false,
+  commentsPanelOpen: false,
+  focusRequest: null,
+  currentFile: null,
+  isDirty: false,
   
   // 基础状态设置
   setNodes: (nodes) => set({ nodes }),
@@ -460,6 +798,21 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
   setConnectionStyle: (style) => set({ connectionStyle: { ...get().connectionStyle, ...style } }),
   setBackground: (background) => set({ background: { ...get().background, ...background } }),
   
+  setLayout: (layout) => {
+    const { layout: previousLayout } = get();
+    if (layout === previousLayout) return;
+    
+    // 先切换布局，executeWithHistory会按新布局重新计算节点位置
+    set({ layout });
+    get().executeWithHistory(({ nodes, relationships }) => ({ nodes, relationships }));
+    
+    // executeWithHistory只记录节点和关系，把切换前的布局补充到撤销记录中
+    const { undoStack } = get();
+    set({
+      undoStack: [...undoStack.slice(0, -1), { ...undoStack[undoStack.length - 1], layout: previousLayout }]
+    });
+  },
+  
   // 记录历史状态的操作封装
   executeWithHistory: (operation) => {
     const { nodes, relationships, undoStack } = get();
@@ -480,7 +833,7 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     // 重新布局
     const rootNode = findNodeById(newState.nodes, newState.nodes.find(n => n.level === 0)?.id || '');
     if (rootNode) {
-      const layoutedRoot = calculateMindMapLayout(rootNode);
+      const layoutedRoot = calculateMindMapLayout(rootNode, get().layout);
       const flatNodes = flattenNodes(layoutedRoot);
       set({ nodes: flatNodes });
       
@@ -541,6 +894,16 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     }, 50);
   },
   
+  // 批量添加子树，整体作为一次可撤销的操作
+  addChildNodes: (parentId, items) => {
+    if (items.length === 0) return;
+    
+    get().executeWithHistory(({ nodes, relationships }) => ({
+      nodes: addChildNodes(nodes, parentId, items),
+      relationships
+    }));
+  },
+  
   // 删除节点
   deleteNode: (nodeId) => {
     const { selectedNodeIds } = get();
@@ -587,6 +950,14 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     }));
   },
   
+  // 自动平衡：重新分配根节点各分支的左右方向，使两侧高度接近
+  balanceLayout: () => {
+    get().executeWithHistory(({ nodes, relationships }) => ({
+      nodes: balanceNodesFunc(nodes),
+      relationships
+    }));
+  },
+  
   // 更新节点备注
   updateNodeNote: (nodeId, note) => {
     get().executeWithHistory(({ nodes, relationships }) => {
@@ -621,6 +992,14 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     });
   },
   
+  // 更新节点日期
+  updateNodeDate: (nodeId, date) => {
+    get().executeWithHistory(({ nodes, relationships }) => ({
+      nodes: updateNodeDateFunc(nodes, nodeId, date),
+      relationships
+    }));
+  },
+  
   // 更新节点图片
   updateNodeImage: (nodeId, image) => {
     get().executeWithHistory(({ nodes, relationships }) => {
@@ -691,6 +1070,85 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     });
   },
   
+  // 添加评论
+  addNodeComment: (nodeId, author, text) => {
+    get().executeWithHistory(({ nodes, relationships }) => ({
+      nodes: updateNodeCommentsFunc(nodes, nodeId, comments => [...comments, {
+        id: uuidv4(),
+        author,
+        text,
+        createdAt: new Date().toISOString(),
+        resolved: false,
+        replies: []
+      }]),
+      relationships
+    }));
+  },
+  
+  // 回复评论，回复已解决的评论时重新打开讨论
+  replyToNodeComment: (nodeId, commentId, author, text) => {
+    get().executeWithHistory(({ nodes, relationships }) => ({
+      nodes: updateNodeCommentsFunc(nodes, nodeId, comments => comments.map(comment => comment.id === commentId
+        ? {
+          ...comment,
+          resolved: false,
+          replies: [...comment.replies, { id: uuidv4(), author, text, createdAt: new Date().toISOString() }]
+        }
+        : comment
+      )),
+      relationships
+    }));
+  },
+  
+  // 标记评论已解决或重新打开
+  setNodeCommentResolved: (nodeId, commentId, resolved) => {
+    get().executeWithHistory(({ nodes, relationships }) => ({
+      nodes: updateNodeCommentsFunc(nodes, nodeId, comments => comments.map(comment =>
+        comment.id === commentId ? { ...comment, resolved } : comment
+      )),
+      relationships
+    }));
+  },
+  
+  // 删除评论，指定replyId时只删除该回复
+  deleteNodeComment: (nodeId, commentId, replyId) => {
+    get().executeWithHistory(({ nodes, relationships }) => ({
+      nodes: updateNodeCommentsFunc(nodes, nodeId, comments => replyId
+        ? comments.map(comment => comment.id === commentId
+          ? { ...comment, replies: comment.replies.filter(reply => reply.id !== replyId) }
+          : comment
+        )
+        : comments.filter(comment => comment.id !== commentId)
+      ),
+      relationships
+    }));
+  },
+  
+  setCommentsPanelOpen: (open) => set({ commentsPanelOpen: open }),
+  
+  // 定位节点：选中节点，展开被折叠的祖先节点，并请求画布移动到该节点
+  focusNode: (nodeId) => {
+    const { nodes } = get();
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    
+    const isHidden = (parentId?: string): boolean => {
+      const parent = parentId ? nodes.find(n => n.id === parentId) : undefined;
+      return !!parent && (!parent.expanded || isHidden(parent.parent));
+    };
+    if (isHidden(node.parent)) {
+      get().executeWithHistory(({ nodes, relationships }) => ({
+        nodes: expandAncestorsFunc(nodes, nodeId),
+        relationships
+      }));
+    }
+    
+    set({
+      selectedNodeIds: [nodeId],
+      focusRequest: { nodeId, requestedAt: Date.now() }
+    });
+  },
+  
   // 添加关系连线
   addRelationship: (sourceId, targetId, label = '') => {
     get().executeWithHistory(({ nodes, relationships }) => {
@@ -751,15 +1209,25 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     const previousState = newUndoStack.pop()!;
     
     // 当前状态推入重做栈
-    const newRedoStack = [...redoStack, { nodes: [...nodes], relationships: [...relationships] }];
+    const newRedoStack = [...redoStack, {
+      nodes: [...nodes],
+      relationships: [...relationships],
+      ...(previousState.background && { background: get().background }),
+      ...(previousState.layout && { layout: get().layout })
+    }];
     
     // 恢复之前的状态
     set({
       nodes: previousState.nodes,
       relationships: previousState.relationships,
+      ...(previousState.background && { background: previousState.background }),
+      ...(previousState.layout && { layout: previousState.layout }),
       undoStack: newUndoStack,
       redoStack: newRedoStack
     });
+    
+    // 切换布局时节点位置是原地计算的，恢复布局后需要重新计算
+    if (previousState.layout) get().calculateAndUpdateLayout();
   },
   
   // 重做操作
@@ -772,69 +1240,216 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     const nextState = newRedoStack.pop()!;
     
     // 当前状态推入撤销栈
-    const newUndoStack = [...undoStack, { nodes: [...nodes], relationships: [...relationships] }];
+    const newUndoStack = [...undoStack, {
+      nodes: [...nodes],
+      relationships: [...relationships],
+      ...(nextState.background && { background: get().background }),
+      ...(nextState.layout && { layout: get().layout })
+    }];
     
     // 恢复之后的状态
     set({
       nodes: nextState.nodes,
       relationships: nextState.relationships,
+      ...(nextState.background && { background: nextState.background }),
+      ...(nextState.layout && { layout: nextState.layout }),
       undoStack: newUndoStack,
       redoStack: newRedoStack
     });
+    
+    if (nextState.layout) get().calculateAndUpdateLayout();
   },
   
   // 导出为JSON
   exportToJSON: () => {
-    const { nodes, relationships, background } = get();
-    return JSON.stringify({ nodes, relationships, background });
+    const { nodes, relationships, background, layout } = get();
+    return createJSON({ nodes, relationships, background, layout });
   },
   
-  // 导入JSON数据
+  // 导入JSON数据（旧版本文件会先迁移到当前格式，再校验结构）
   importFromJSON: (jsonString: string) => {
     try {
-      const data = JSON.parse(jsonString);
-      
-      // 验证数据格式
-      if (!data.nodes || !Array.isArray(data.nodes)) {
-        console.error('无效的JSON格式: 缺少nodes数组');
-        return false;
-      }
+      const data = parseJSON(jsonString);
       
       // 导入数据
-      set({ 
-        nodes: data.nodes, 
-        relationships: data.relationships || [],
-        background: data.background || DEFAULT_BACKGROUND,
-        undoStack: [],
-        redoStack: []
-      });
-      
-      // 重新计算布局
-      get().calculateAndUpdateLayout();
+      get().loadMindMapData(data);
       
       console.log('成功导入思维导图数据');
       console.log('节点数量:', data.nodes.length);
-      console.log('关系数量:', (data.relationships || []).length);
+      console.log('关系数量:', data.relationships.length);
       if (data.background) console.log('背景设置: 类型-', data.background.type);
       
       return true;
     } catch (error) {
-      console.error('导入JSON失败:', error);
+      if (error instanceof MindMapFormatError) {
+        console.error('导入JSON失败，文件结构校验未通过:');
+        error.issues.forEach(issue => console.error(`  ${issue.path}: ${issue.message}`));
+      } else {
+        console.error('导入JSON失败:', error);
+      }
       return false;
     }
   },
   
-  // 导出为图片
-  exportToImage: () => {
-    // 这里需要实现SVG转换为图片的逻辑
-    // 可以使用html-to-image库
-    return '';
+  // 载入外部思维导图数据（替换当前内容并重新布局）
+  loadMindMapData: (data) => {
+    set({ 
+      nodes: data.nodes, 
+      relationships: data.relationships || [],
+      background: data.background || DEFAULT_BACKGROUND,
+      layout: data.layout || DEFAULT_LAYOUT,
+      undoStack: [],
+      redoStack: [],
+      selectedNodeIds: [],
+      editingNodeId: null,
+      diffBase: null
+    });
+    
+    // 重新计算布局
+    get().calculateAndUpdateLayout();
+  },
+  
+  // 替换当前内容（包括背景和布局），可以撤销
+  replaceMindMapData: (data) => {
+    const { background, layout } = get();
+    set({
+      background: data.background || DEFAULT_BACKGROUND,
+      layout: data.layout || DEFAULT_LAYOUT,
+      selectedNodeIds: [],
+      editingNodeId: null
+    });
+    get().executeWithHistory(() => ({ nodes: data.nodes, relationships: data.relationships }));
+
+    // executeWithHistory只记录节点和关系，把替换前的背景和布局补充到撤销记录中
+    const { undoStack } = get();
+    set({
+      undoStack: [...undoStack.slice(0, -1), { ...undoStack[undoStack.length - 1], background, layout }]
+    });
+  },
+  
+  // 导入XMind文件
+  importFromXMind: async (data: ArrayBuffer) => {
+    try {
+      const mapData = await parseXMind(data);
+      get().loadMindMapData(mapData);
+      console.log('成功导入XMind文件，节点数量:', mapData.nodes.length);
+      return true;
+    } catch (error) {
+      console.error('导入XMind失败:', error);
+      return false;
+    }
+  },
+  
+  // 导出为XMind文件
+  exportToXMind: async () => {
+    const { nodes, relationships } = get();
+    return createXMind({ nodes, relationships });
+  },
+  
+  // 导入FreeMind/Freeplane文件
+  importFromFreeMind: (text: string) => {
+    try {
+      const mapData = parseFreeMind(text);
+      get().loadMindMapData(mapData);
+      console.log('成功导入FreeMind文件，节点数量:', mapData.nodes.length);
+      return true;
+    } catch (error) {
+      console.error('导入FreeMind失败:', error);
+      return false;
+    }
+  },
+  
+  // 导出为FreeMind文件
+  exportToFreeMind: () => {
+    const { nodes, relationships } = get();
+    return createFreeMind({ nodes, relationships });
+  },
+  
+  // 导入Markdown大纲
+  importFromMarkdown: (text: string, title?: string) => {
+    try {
+      const mapData = parseMarkdown(text, title);
+      get().loadMindMapData(mapData);
+      console.log('成功导入Markdown文件，节点数量:', mapData.nodes.length);
+      return true;
+    } catch (error) {
+      console.error('导入Markdown失败:', error);
+      return false;
+    }
+  },
+  
+  // 导出为Markdown大纲
+  exportToMarkdown: () => {
+    const { nodes, relationships } = get();
+    return createMarkdown({ nodes, relationships });
+  },
+  
+  // 导入OPML大纲
+  importFromOPML: (text: string, title?: string) => {
+    try {
+      const mapData = parseOPML(text, title);
+      get().loadMindMapData(mapData);
+      console.log('成功导入OPML文件，节点数量:', mapData.nodes.length);
+      return true;
+    } catch (error) {
+      console.error('导入OPML失败:', error);
+      return false;
+    }
+  },
+  
+  // 导出为OPML大纲
+  exportToOPML: () => {
+    const { nodes, relationships } = get();
+    return createOPML({ nodes, relationships });
+  },
+  
+  // 导出为图片（SVG数据URL），作为图片绘制的SVG不会加载外部资源，因此先内嵌节点和背景图片
+  exportToImage: async (options?: SVGExportOptions) => {
+    const { svg, failedImages } = await inlineSVGImages(get().exportToSVG(options));
+    return { url: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`, failedImages };
+  },
+  
+  // 导出为SVG矢量图
+  exportToSVG: (options?: SVGExportOptions) => {
+    const { nodes, relationships, background, layout } = get();
+    return createSVG({ nodes, relationships, background, layout }, options);
+  },
+  
+  // 导出为PDF
+  exportToPDF: async (options?: PDFExportOptions) => {
+    const { nodes, relationships, background, layout } = get();
+    return createPDF({ nodes, relationships, background, layout }, options);
+  },
+  
+  // 导出为Word文档
+  exportToDocx: async () => {
+    const { nodes, relationships } = get();
+    return createDocx({ nodes, relationships });
   },
   
   // 本地存储相关方法
   saveToLocalStorage: async () => {
-    const { nodes, relationships, currentMapId, background } = get();
-    await saveMindMapToDB(currentMapId, { nodes, relationships, background });
+    const { nodes, relationships, currentMapId, background, layout, tabConflict } = get();
+    // 与其他标签页冲突时暂停保存，等待用户选择
+    if (tabConflict) return;
+    
+    const result = await saveMindMapToDB(currentMapId, { nodes, relationships, background, layout });
+    if (result === 'conflict') {
+      set({ tabConflict: true });
+      return;
+    }
+    if (result !== 'saved') return;
+    
+    // 距离上次自动快照超过间隔时记录一个新的自动快照
+    const lastTime = lastAutoSnapshotTimes.get(currentMapId) || 0;
+    if (Date.now() - lastTime >= AUTO_SNAPSHOT_INTERVAL) {
+      lastAutoSnapshotTimes.set(currentMapId, Date.now());
+      try {
+        await createSnapshotRecord(currentMapId, { nodes, relationships, background, layout }, { auto: true });
+      } catch (error) {
+        console.error('创建自动快照失败:', error);
+      }
+    }
   },
   
   loadFromLocalStorage: async () => {
@@ -858,7 +1473,9 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
         nodes: mapData.nodes, 
         relationships: mapData.relationships,
         background: mapData.background || DEFAULT_BACKGROUND, // 加载背景配置，如果不存在则使用默认值
+        layout: mapData.layout || DEFAULT_LAYOUT,
         currentMapId: currentId,
+        diffBase: null,
         undoStack: [],
         redoStack: []
       });
@@ -871,6 +1488,183 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     }
   },
   
+  // 重新加载当前思维导图（其他标签页保存了新的内容）
+  reloadCurrentMap: async () => {
+    try {
+      const { currentMapId, selectedNodeIds } = get();
+      const mapData = await loadMindMapFromDB(currentMapId);
+      if (!mapData) return false;
+
+      const ids = new Set(mapData.nodes.map(node => node.id));
+      set({
+        nodes: mapData.nodes,
+        relationships: mapData.relationships || [],
+        background: mapData.background || DEFAULT_BACKGROUND,
+        layout: mapData.layout || DEFAULT_LAYOUT,
+        // 撤销记录基于旧内容，撤销会覆盖其他标签页的修改
+        undoStack: [],
+        redoStack: [],
+        selectedNodeIds: selectedNodeIds.filter(id => ids.has(id)),
+        tabConflict: false
+      });
+      console.log(`已重新加载其他标签页保存的思维导图: ${currentMapId}`);
+      return true;
+    } catch (error) {
+      console.error('重新加载思维导图失败:', error);
+      return false;
+    }
+  },
+
+  // 处理与其他标签页的保存冲突
+  resolveTabConflict: async (choice) => {
+    try {
+      if (choice === 'reload') {
+        return await get().reloadCurrentMap();
+      }
+
+      if (choice === 'overwrite') {
+        // 覆盖前把其他标签页保存的内容记录为快照，可在版本历史中找回
+        const { currentMapId } = get();
+        const otherData = await loadMindMapFromDB(currentMapId);
+        if (otherData) {
+          await createSnapshotRecord(currentMapId, otherData, { name: '被其他标签页覆盖前自动保存', auto: true });
+        }
+      } else {
+        // 另存为新的思维导图，原思维导图保留其他标签页的内容
+        set({ currentMapId: uuidv4() });
+      }
+
+      set({ tabConflict: false });
+      await get().saveToLocalStorage();
+      return !get().tabConflict;
+    } catch (error) {
+      console.error('处理标签页冲突失败:', error);
+      return false;
+    }
+  },
+  
+  // 打开本地的JSON或XMind文件，作为新的思维导图并关联该文件
+  // 不支持File System Access API时由调用方通过文件选择框传入file，此时保存会改为下载
+  openFile: async (file) => {
+    try {
+      let handle: FileSystemFileHandle | null = null;
+      if (!file) {
+        if (!isFileSystemAccessSupported()) return 'failed';
+        handle = await pickFileToOpen();
+        if (!handle) return 'cancelled';
+        file = await handle.getFile();
+      }
+      
+      const format = getFileFormat(file.name);
+      if (!format) {
+        console.error('不支持的文件格式:', file.name);
+        return 'failed';
+      }
+      const data = await readFileContent(file, format);
+      
+      // 切换前保存当前思维导图
+      await get().saveToLocalStorage();
+      
+      const mapId = uuidv4();
+      linkedFile = { mapId, name: file.name, format, handle, savedContent: '' };
+      set({ currentMapId: mapId });
+      get().loadMindMapData(data);
+      
+      const { nodes, relationships, background, layout } = get();
+      linkedFile.savedContent = serializeContent({ nodes, relationships, background, layout });
+      set({ currentFile: toCurrentFile(linkedFile), isDirty: false });
+      
+      await saveCurrentMapId(mapId);
+      await get().saveToLocalStorage();
+      await saveLinkedFileToDB(linkedFile);
+      console.log(`已打开文件: ${file.name}`);
+      return 'done';
+    } catch (error) {
+      console.error('打开文件失败:', error);
+      return 'failed';
+    }
+  },
+  
+  // 保存到关联的文件，没有关联文件时另存为JSON文件
+  saveFile: async () => {
+    if (!linkedFile || linkedFile.mapId !== get().currentMapId) {
+      return get().saveFileAs('json');
+    }
+    
+    try {
+      const record = linkedFile;
+      const { nodes, relationships, background, layout } = get();
+      const data = { nodes, relationships, background, layout };
+      const content = await createFileContent(record.format, data);
+      
+      if (record.handle) {
+        if (!(await ensureWritePermission(record.handle))) {
+          console.error('没有写入文件的权限:', record.name);
+          return 'failed';
+        }
+        await writeFileHandle(record.handle, content);
+      } else {
+        downloadBlob(content, record.name);
+      }
+      
+      record.savedContent = serializeContent(data);
+      set({ isDirty: false });
+      await saveLinkedFileToDB(record);
+      console.log(`已保存到文件: ${record.name}`);
+      return 'done';
+    } catch (error) {
+      console.error('保存文件失败:', error);
+      return 'failed';
+    }
+  },
+  
+  // 另存为新的文件，并把当前思维导图关联到该文件
+  saveFileAs: async (format = linkedFile?.format || 'json') => {
+    try {
+      const { nodes, currentMapId } = get();
+      const title = linkedFile?.mapId === currentMapId
+        ? linkedFile.name
+        : (nodes.find(node => node.level === 0)?.content || '思维导图');
+      
+      let handle: FileSystemFileHandle | null = null;
+      let name = withFileExtension(title, format);
+      if (isFileSystemAccessSupported()) {
+        handle = await pickFileToSave(title, format);
+        if (!handle) return 'cancelled';
+        name = handle.name;
+        // 在保存对话框中选择了另一种文件类型时按所选类型保存
+        format = getFileFormat(name) || format;
+      }
+      
+      linkedFile = { mapId: currentMapId, name, format, handle, savedContent: '' };
+      set({ currentFile: toCurrentFile(linkedFile) });
+      return await get().saveFile();
+    } catch (error) {
+      console.error('另存为文件失败:', error);
+      return 'failed';
+    }
+  },
+  
+  // 切换思维导图后恢复它关联的文件
+  loadLinkedFile: async (mapId) => {
+    try {
+      const record = await loadLinkedFileFromDB(mapId);
+      // 读取期间已切换到其他思维导图或已关联了新文件
+      if (get().currentMapId !== mapId || linkedFile?.mapId === mapId) return;
+      
+      linkedFile = record;
+      if (record) {
+        const { nodes, relationships, background, layout } = get();
+        set({
+          currentFile: toCurrentFile(record),
+          isDirty: serializeContent({ nodes, relationships, background, layout }) !== record.savedContent
+        });
+      }
+    } catch (error) {
+      console.error('读取关联文件失败:', error);
+    }
+  },
+  
   // 创建新的思维导图
   createNewMindMap: () => {
     try {
@@ -885,9 +1679,11 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
       set({ 
         nodes: flatNodes,
         relationships: [],
+        layout: DEFAULT_LAYOUT,
         undoStack: [],
         redoStack: [],
         currentMapId: newMapId,
+        diffBase: null,
         selectedNodeIds: []
       });
       
@@ -925,9 +1721,11 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
       set({ 
         nodes: flatNodes,
         relationships: [],
+        layout: DEFAULT_LAYOUT,
         undoStack: [],
         redoStack: [],
         currentMapId: newMapId,
+        diffBase: null,
         selectedNodeIds: [rootNode.id] // 默认选中根节点
       });
       
@@ -943,12 +1741,406 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
       return false;
     }
   },
-  
+
+  // 列出所有已保存的思维导图
+  listMindMaps: async () => {
+    try {
+      // 先保存当前思维导图，确保列表中的数据是最新的
+      await get().saveToLocalStorage();
+
+      const records = await loadAllMindMapsFromDB();
+      return records
+        .map(summarizeMindMap)
+        .sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+    } catch (error) {
+      console.error('加载思维导图列表失败:', error);
+      return [];
+    }
+  },
+
+  // 打开指定的思维导图
+  openMindMap: async (id: string) => {
+    try {
+      if (id === get().currentMapId) return true;
+
+      // 切换前保存当前思维导图
+      await get().saveToLocalStorage();
+
+      const mapData = await loadMindMapFromDB(id);
+      if (!mapData) {
+        console.error('未找到指定思维导图:', id);
+        return false;
+      }
+
+      set({
+        nodes: mapData.nodes,
+        relationships: mapData.relationships || [],
+        background: mapData.background || DEFAULT_BACKGROUND,
+        layout: mapData.layout || DEFAULT_LAYOUT,
+        currentMapId: id,
+        diffBase: null,
+        undoStack: [],
+        redoStack: [],
+        selectedNodeIds: [],
+        editingNodeId: null
+      });
+
+      await saveCurrentMapId(id);
+      console.log(`已打开思维导图: ${id}`);
+      return true;
+    } catch (error) {
+      console.error('打开思维导图失败:', error);
+      return false;
+    }
+  },
+
+  // 重命名思维导图（修改根节点内容）
+  renameMindMap: async (id: string, title: string) => {
+    try {
+      const trimmedTitle = title.trim();
+      if (!trimmedTitle) return false;
+
+      // 当前打开的思维导图通过节点操作修改，保留撤销记录
+      if (id === get().currentMapId) {
+        const rootNode = get().nodes.find(node => node.level === 0);
+        if (!rootNode) return false;
+        get().updateNodeContent(rootNode.id, trimmedTitle);
+        await get().saveToLocalStorage();
+        return true;
+      }
+
+      const records = await loadAllMindMapsFromDB();
+      const record = records.find(item => item.id === id);
+      if (!record) {
+        console.error('未找到要重命名的思维导图:', id);
+        return false;
+      }
+
+      // 增加修订号并通知打开该思维导图的其他标签页
+      const revision = (record.revision || 0) + 1;
+      await putMindMapRecordToDB({
+        ...record,
+        nodes: record.nodes.map(node => node.level === 0 ? { ...node, content: trimmedTitle } : node),
+        revision,
+        updatedAt: new Date().toISOString()
+      });
+      tabSync?.post({ type: 'saved', mapId: id, revision });
+
+      console.log(`思维导图 ${id} 已重命名为: ${trimmedTitle}`);
+      return true;
+    } catch (error) {
+      console.error('重命名思维导图失败:', error);
+      return false;
+    }
+  },
+
+  // 复制思维导图
+  duplicateMindMap: async (id: string) => {
+    try {
+      if (id === get().currentMapId) {
+        await get().saveToLocalStorage();
+      }
+
+      const mapData = await loadMindMapFromDB(id);
+      if (!mapData) {
+        console.error('未找到要复制的思维导图:', id);
+        return null;
+      }
+
+      const newMapId = uuidv4();
+      await putMindMapRecordToDB({
+        id: newMapId,
+        nodes: mapData.nodes.map(node => node.level === 0 ? { ...node, content: `${node.content} 副本` } : node),
+        relationships: mapData.relationships || [],
+        background: mapData.background || DEFAULT_BACKGROUND,
+        layout: mapData.layout || DEFAULT_LAYOUT,
+        updatedAt: new Date().toISOString()
+      });
+
+      console.log(`已复制思维导图 ${id}，新ID: ${newMapId}`);
+      return newMapId;
+    } catch (error) {
+      console.error('复制思维导图失败:', error);
+      return null;
+    }
+  },
+
+  // 删除思维导图
+  deleteMindMap: async (id: string) => {
+    try {
+      const success = await deleteMindMapFromDB(id);
+      if (!success) return false;
+
+      // 同时删除该思维导图的版本历史和关联的文件记录（不删除磁盘上的文件）
+      const snapshots = await loadSnapshotsFromDB(id);
+      await deleteSnapshotsFromDB(snapshots.map(snapshot => snapshot.id));
+      await deleteLinkedFileFromDB(id);
+      lastAutoSnapshotTimes.delete(id);
+      syncedMaps.delete(id);
+
+      // 删除的是当前思维导图时，切换到最近修改的思维导图或新建空白思维导图
+      if (id === get().currentMapId) {
+        const records = await loadAllMindMapsFromDB();
+        const latest = records.sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''))[0];
+        // 通过loadMindMapFromDB加载，记录已同步的修订号，避免下次保存被误判为其他标签页的修改
+        const mapData = latest ? await loadMindMapFromDB(latest.id) : null;
+
+        if (latest && mapData) {
+          set({
+            nodes: mapData.nodes,
+            relationships: mapData.relationships || [],
+            background: mapData.background || DEFAULT_BACKGROUND,
+            layout: mapData.layout || DEFAULT_LAYOUT,
+            currentMapId: latest.id,
+            diffBase: null,
+            undoStack: [],
+            redoStack: [],
+            selectedNodeIds: [],
+            editingNodeId: null
+          });
+          await saveCurrentMapId(latest.id);
+        } else {
+          get().createEmptyMindMap();
+        }
+      }
+
+      console.log(`思维导图 ${id} 已删除`);
+      return true;
+    } catch (error) {
+      console.error('删除思维导图失败:', error);
+      return false;
+    }
+  },
+
+  // 列出当前思维导图的版本历史
+  listSnapshots: async () => {
+    try {
+      return await loadSnapshotsFromDB(get().currentMapId);
+    } catch (error) {
+      console.error('加载版本历史失败:', error);
+      return [];
+    }
+  },
+
+  // 保存当前内容为命名版本
+  createSnapshot: async (name: string) => {
+    try {
+      const { nodes, relationships, background, layout, currentMapId } = get();
+      await createSnapshotRecord(currentMapId, { nodes, relationships, background, layout }, { name: name.trim(), auto: false });
+      console.log(`已保存版本: ${name}`);
+      return true;
+    } catch (error) {
+      console.error('保存版本失败:', error);
+      return false;
+    }
+  },
+
+  // 恢复历史版本（作为一次可撤销的操作）
+  restoreSnapshot: async (snapshotId: string) => {
+    try {
+      const snapshot = await loadSnapshotFromDB(snapshotId);
+      if (!snapshot || snapshot.mapId !== get().currentMapId) {
+        console.error('未找到要恢复的版本:', snapshotId);
+        return false;
+      }
+      const data = parseMindMapFile(snapshot.data);
+
+      // 恢复前先记录当前内容，撤销记录在刷新页面后会丢失
+      const { nodes, relationships, background, layout, currentMapId } = get();
+      await createSnapshotRecord(currentMapId, { nodes, relationships, background, layout }, { name: '恢复前自动保存', auto: true });
+
+      get().replaceMindMapData(data);
+
+      console.log(`已恢复版本: ${snapshot.name || snapshot.createdAt}`);
+      return true;
+    } catch (error) {
+      console.error('恢复版本失败:', error);
+      return false;
+    }
+  },
+
+  // 重命名版本，自动快照命名后成为命名版本，不再被自动清理
+  renameSnapshot: async (snapshotId: string, name: string) => {
+    try {
+      const snapshot = await loadSnapshotFromDB(snapshotId);
+      if (!snapshot) return false;
+      await saveSnapshotToDB({ ...snapshot, name: name.trim(), auto: false });
+      return true;
+    } catch (error) {
+      console.error('重命名版本失败:', error);
+      return false;
+    }
+  },
+
+  // 删除版本
+  deleteSnapshot: async (snapshotId: string) => {
+    try {
+      await deleteSnapshotsFromDB([snapshotId]);
+      return true;
+    } catch (error) {
+      console.error('删除版本失败:', error);
+      return false;
+    }
+  },
+
+  // 以JSON文件作为基准对比当前版本
+  compareWithJSON: (jsonString: string, name: string) => {
+    try {
+      set({ diffBase: { name, data: parseJSON(jsonString) } });
+      return true;
+    } catch (error) {
+      console.error('读取对比文件失败:', error);
+      return false;
+    }
+  },
+
+  // 以历史版本作为基准对比当前版本
+  compareWithSnapshot: async (snapshotId: string) => {
+    try {
+      const snapshot = await loadSnapshotFromDB(snapshotId);
+      if (!snapshot) return false;
+      const name = snapshot.name || `自动保存 ${new Date(snapshot.createdAt).toLocaleString('zh-CN')}`;
+      set({ diffBase: { name, data: parseMindMapFile(snapshot.data) } });
+      return true;
+    } catch (error) {
+      console.error('读取对比版本失败:', error);
+      return false;
+    }
+  },
+
+  // 关闭版本对比
+  clearDiffBase: () => set({ diffBase: null }),
+
+  // 分析三个版本的JSON文件，文件无法解析或不是同一思维导图时抛出错误
+  analyzeMerge: (baseJSON: string, oursJSON: string, theirsJSON: string) => {
+    return mergeMindMaps(parseJSON(baseJSON), parseJSON(oursJSON), parseJSON(theirsJSON));
+  },
+
+  // 按冲突的处理结果生成合并后的思维导图，替换当前内容（可以撤销）
+  applyMerge: (merge: MindMapMerge, resolutions: MergeResolutions) => {
+    try {
+      const data = resolveMindMapMerge(merge, resolutions);
+      get().replaceMindMapData(data);
+      console.log('合并完成，节点数量:', data.nodes.length);
+      return true;
+    } catch (error) {
+      console.error('合并失败:', error);
+      return false;
+    }
+  },
+
+  // 开始实时协作
+  startCollaboration: async (options: CollaborationOptions) => {
+    try {
+      get().stopCollaboration();
+
+      if (options.mode === 'join') {
+        // 加入房间时把房间内容保存为新的思维导图，不覆盖当前思维导图
+        await get().saveToLocalStorage();
+        set({ currentMapId: uuidv4(), undoStack: [], redoStack: [], diffBase: null });
+      }
+
+      set({
+        collaboration: { room: options.room, transport: options.transport, status: 'connecting' },
+        collaborators: []
+      });
+
+      const transport = options.transport === 'websocket'
+        ? createWebSocketTransport(options.relayUrl || '', options.room)
+        : createBroadcastChannelTransport(options.room);
+
+      const session = createCollaborationSession({
+        transport,
+        name: options.name,
+        color: PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)],
+        onRemoteChange: (data) => {
+          const { selectedNodeIds, editingNodeId } = get();
+          const ids = new Set(data.nodes.map(node => node.id));
+
+          applyingRemoteChange = true;
+          set({
+            nodes: data.nodes,
+            relationships: data.relationships,
+            background: data.background || DEFAULT_BACKGROUND,
+            layout: data.layout || DEFAULT_LAYOUT,
+            // 撤销记录保存的是完整内容，撤销会覆盖其他人的修改，因此收到远程修改后清空
+            undoStack: [],
+            redoStack: [],
+            selectedNodeIds: selectedNodeIds.filter(id => ids.has(id)),
+            editingNodeId: editingNodeId && ids.has(editingNodeId) ? editingNodeId : null
+          });
+          get().calculateAndUpdateLayout();
+          applyingRemoteChange = false;
+
+          // 远程修改可能很频繁，合并后再保存
+          clearTimeout(collaborationSaveTimer);
+          collaborationSaveTimer = setTimeout(() => get().saveToLocalStorage(), 1000);
+        },
+        onPeersChange: (peers) => set({ collaborators: peers }),
+        onStatusChange: (status) => {
+          const { collaboration } = get();
+          if (collaboration) set({ collaboration: { ...collaboration, status } });
+        }
+      });
+      collaborationSession = session;
+
+      if (options.mode === 'create') {
+        const { nodes, relationships, background, layout } = get();
+        session.seed({ nodes, relationships, background, layout });
+      }
+      session.setPresence({ selection: get().selectedNodeIds });
+
+      // 本地修改同步到协作文档；切换到其他思维导图时结束协作
+      unsubscribeCollaboration = api.subscribe((state, previous) => {
+        if (state.currentMapId !== previous.currentMapId) {
+          get().stopCollaboration();
+          return;
+        }
+        if (
+          !applyingRemoteChange &&
+          (state.nodes !== previous.nodes || state.relationships !== previous.relationships || state.background !== previous.background)
+        ) {
+          try {
+            session.update({ nodes: state.nodes, relationships: state.relationships, background: state.background, layout: state.layout });
+          } catch (error) {
+            console.error('同步协作修改失败:', error);
+          }
+        }
+        if (state.selectedNodeIds !== previous.selectedNodeIds) {
+          session.setPresence({ selection: state.selectedNodeIds });
+        }
+      });
+
+      console.log(`已${options.mode === 'create' ? '创建' : '加入'}协作房间: ${options.room}`);
+      return true;
+    } catch (error) {
+      console.error('开始协作失败:', error);
+      get().stopCollaboration();
+      return false;
+    }
+  },
+
+  // 结束实时协作
+  stopCollaboration: () => {
+    unsubscribeCollaboration?.();
+    unsubscribeCollaboration = null;
+    collaborationSession?.destroy();
+    collaborationSession = null;
+    if (get().collaboration) {
+      set({ collaboration: null, collaborators: [] });
+    }
+  },
+
+  // 更新本地光标在画布中的位置
+  updateCollaborationCursor: (position: NodePosition | null) => {
+    collaborationSession?.setPresence({ cursor: position });
+  },
+
   // 保存为模板
   saveAsTemplate: async (name: string) => {
     try {
       console.log('开始保存模板:', name);
-      const { nodes, relationships, background } = get();
+      const { nodes, relationships, background, layout } = get();
       const templateId = uuidv4();
       
       console.log('准备保存的模板数据:', {
@@ -965,7 +2157,8 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
         name,
         nodes,
         relationships,
-        background
+        background,
+        layout
       });
       
       console.log(`模板保存成功: ${name}，ID: ${templateId}`);
@@ -1003,7 +2196,7 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
         
         request.onsuccess = () => {
           if (request.result) {
-            const { nodes, relationships, background } = request.result;
+            const { nodes, relationships, background, layout } = request.result;
             
             if (typeof window !== 'undefined' && window.debugTemplates) {
               console.log(`🔍 模板调试: 成功获取模板数据`, {
@@ -1021,7 +2214,9 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
               nodes, 
               relationships,
               background: background || DEFAULT_BACKGROUND,
+              layout: layout || DEFAULT_LAYOUT,
               currentMapId: newMapId,
+              diffBase: null,
               undoStack: [],
               redoStack: [],
               selectedNodeIds: []
@@ -1109,6 +2304,49 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
   initialize: async () => {
     console.log('正在初始化思维导图...');
     
+    // 其他标签页保存了当前思维导图时：没有未保存的修改则重新加载，否则锁定当前标签页等待用户选择
+    if (!tabSync) {
+      tabSync = createTabSync(async (message: TabSyncMessage) => {
+        const { currentMapId, nodes, relationships, background, layout, tabConflict } = get();
+        if (message.type !== 'saved' || message.mapId !== currentMapId || tabConflict) return;
+
+        const synced = syncedMaps.get(currentMapId);
+        if (synced && message.revision <= synced.revision) return;
+        if (synced && serializeContent({ nodes, relationships, background, layout }) !== synced.content) {
+          set({ tabConflict: true });
+          return;
+        }
+        await get().reloadCurrentMap();
+      });
+    }
+    
+    // 跟踪关联的本地文件：切换思维导图时恢复新思维导图关联的文件，编辑后检查是否有未保存到文件的修改
+    if (!unsubscribeFileTracking) {
+      unsubscribeFileTracking = api.subscribe((state, previous) => {
+        if (state.currentMapId !== previous.currentMapId) {
+          if (linkedFile?.mapId !== state.currentMapId) {
+            linkedFile = null;
+            set({ currentFile: null, isDirty: false });
+            get().loadLinkedFile(state.currentMapId);
+          }
+          return;
+        }
+        if (
+          linkedFile &&
+          (state.nodes !== previous.nodes || state.relationships !== previous.relationships || state.background !== previous.background)
+        ) {
+          // 拖拽等连续修改时合并检查
+          clearTimeout(dirtyCheckTimer);
+          dirtyCheckTimer = setTimeout(() => {
+            const { nodes, relationships, background, layout, isDirty } = get();
+            if (!linkedFile) return;
+            const dirty = serializeContent({ nodes, relationships, background, layout }) !== linkedFile.savedContent;
+            if (dirty !== isDirty) set({ isDirty: dirty });
+          }, 300);
+        }
+      });
+    }
+    
     // 创建默认模板
     await get().createDefaultTemplates();
     
@@ -1147,8 +2385,8 @@ const useMindMapStore = create<MindMapState>((set, get) => ({
     
     console.log('找到根节点:', rootNode.id, rootNode.content);
     
-    // 执行布局计算（保持思维导图的原始形状）
-    const layoutedRoot = calculateMindMapLayout(rootNode);
+    // 按当前布局计算节点位置
+    const layoutedRoot = calculateMindMapLayout(rootNode, get().layout);
     
     // 将树状结构展平为节点数组
     const flatNodes = flattenNodes(layoutedRoot);
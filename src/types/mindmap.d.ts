@@ -34,6 +34,24 @@ export interface NodeImage {
   alt?: string;   // 图片替代文本
 }
 
+// 评论回复接口
+export interface NodeCommentReply {
+  id: string;
+  author: string;     // 回复者昵称
+  text: string;
+  createdAt: string;  // ISO时间
+}
+
+// 节点评论（讨论串）接口
+export interface NodeComment {
+  id: string;
+  author: string;     // 评论者昵称
+  text: string;
+  createdAt: string;  // ISO时间
+  resolved: boolean;  // 是否已解决
+  replies: NodeCommentReply[];
+}
+
 // 节点数据接口
 export interface MindNode {
   id: string;
@@ -50,6 +68,8 @@ export interface MindNode {
   image?: NodeImage; // 节点图片
   refId?: string;   // 引用的节点ID，用于节点引用功能
   isReference?: boolean; // 标记是否为引用节点
+  comments?: NodeComment[]; // 节点评论
+  date?: string;    // 节点日期 (YYYY-MM-DD)，时间轴布局按日期排列一级节点
   meta?: {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     [key: string]: any;  // 扩展字段，用于存储额外信息
@@ -84,3 +104,55 @@ export interface BackgroundConfig {
   size?: 'cover' | 'contain' | 'auto' | string;  // 背景图片大小
   repeat?: 'no-repeat' | 'repeat' | 'repeat-x' | 'repeat-y';  // 背景重复方式
 }
+
+// 布局类型
+// mindmap: 思维导图（左右两侧） orgChart: 组织结构图（向下） orgChartUp: 组织结构图（向上）
+// logicRight: 逻辑图（向右） logicLeft: 逻辑图（向左） tree: 树形目录（缩进） radial: 放射图（同心圆）
+// fishbone: 鱼骨图（石川图） timeline: 时间轴
+export type LayoutType = 'mindmap' | 'orgChart' | 'orgChartUp' | 'logicRight' | 'logicLeft' | 'tree' | 'radial' | 'fishbone' | 'timeline';
+
+// 思维导图文档摘要，用于文档库列表
+export interface MindMapSummary {
+  id: string;
+  title: string;       // 标题，取自根节点内容
+  updatedAt: string;   // 最后修改时间 (ISO字符串)
+  nodeCount: number;   // 节点数量
+  thumbnail: string;   // 缩略图 (SVG data URL)
+}
+
+// 思维导图数据，用于导入导出
+export interface MindMapData {
+  nodes: MindNode[];
+  relationships: Relationship[];
+  background?: BackgroundConfig;
+  layout?: LayoutType;
+}
+
+// 大纲条目，用于批量创建子树（如粘贴缩进文本）
+export interface OutlineItem {
+  content: string;
+  children: OutlineItem[];
+}
+
+// JSON文件中的节点记录，子节点通过parent引用，同级顺序即数组顺序
+export type MindMapFileNode = Omit<MindNode, 'children'>;
+
+// JSON文件格式
+export interface MindMapFile {
+  formatVersion: number;       // 文件格式版本，用于迁移旧版本文件
+  nodes: MindMapFileNode[];    // 按先序遍历排列的节点记录，根节点在最前
+  relationships: Relationship[];
+  background?: BackgroundConfig;
+  layout?: LayoutType;         // 布局类型，缺省为思维导图布局
+}
+
+// 版本历史快照
+export interface MindMapSnapshot {
+  id: string;
+  mapId: string;       // 所属思维导图ID
+  name?: string;       // 用户命名的版本名称，自动快照没有名称
+  auto: boolean;       // 是否为自动快照（自动快照超出数量上限时会被清理）
+  createdAt: string;   // 创建时间 (ISO字符串)
+  nodeCount: number;   // 节点数量
+  data: MindMapFile;   // 快照内容，与JSON文件格式相同，便于迁移
+}
@@ -1,10 +1,55 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 import path from 'path'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // 离线可用的PWA：Service Worker预缓存构建产物，新版本由用户确认后再刷新
+    VitePWA({
+      registerType: 'prompt',
+      includeAssets: ['webxmind-favicon.svg', 'webxmind-icon-192.png', 'webxmind-icon-512.png'],
+      manifest: {
+        name: 'WebXmind - 网页思维导图',
+        short_name: 'WebXmind',
+        description: '即开即用的网页思维导图，数据保存在本地，离线也能使用',
+        lang: 'zh-CN',
+        start_url: '/',
+        scope: '/',
+        display: 'standalone',
+        theme_color: '#1890ff',
+        background_color: '#f0f2f5',
+        // Chromium要求至少有192×192和512×512的PNG图标才会提供安装
+        icons: [
+          {
+            src: 'webxmind-icon-192.png',
+            sizes: '192x192',
+            type: 'image/png'
+          },
+          {
+            src: 'webxmind-icon-512.png',
+            sizes: '512x512',
+            type: 'image/png'
+          },
+          {
+            src: 'webxmind-favicon.svg',
+            sizes: 'any',
+            type: 'image/svg+xml',
+            purpose: 'any'
+          }
+        ]
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,svg,png,ico,woff2}'],
+        // 导出相关的依赖较大，需要提高单个文件的预缓存上限
+        maximumFileSizeToCacheInBytes: 10 * 1024 * 1024,
+        navigateFallback: 'index.html',
+        cleanupOutdatedCaches: true
+      }
+    })
+  ],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),